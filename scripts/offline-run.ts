@@ -0,0 +1,62 @@
+// Runs a scripted suite against the fixture site, without network access or an API key
+// Usage: npm run test:offline [-- path/to/script.json]
+// Exits with 1 if the run fails, so it can gate CI
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const scriptPath = path.resolve(process.argv[2] || path.join(rootDir, 'fixtures/scripts/book-demo.json'));
+const port = Number(process.env.FIXTURE_PORT) || 4174;
+
+// Resolved when services are created, so set before the runner is loaded
+process.env.LLM_PROVIDER = 'scripted';
+process.env.LLM_SCRIPT_PATH = scriptPath;
+process.env.STORAGE_DRIVER = 'memory';
+
+/**
+ * Serve the fixture site and wait until it accepts requests
+ */
+function startFixtureServer(): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    const server = spawn(process.execPath, [path.join(rootDir, 'scripts/serve-fixtures.mjs'), String(port)], {
+      stdio: ['ignore', 'pipe', 'inherit']
+    });
+    server.once('error', reject);
+    server.once('exit', code => reject(new Error(`Fixture server exited with code ${code}`)));
+    server.stdout!.once('data', () => resolve(() => server.kill()));
+  });
+}
+
+async function main(): Promise<boolean> {
+  const { WebSiteTest } = await import('../src/lib/playwright/WebSiteTest');
+  const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as { name?: string; steps: { instruction?: string }[] };
+  const customSteps = script.steps.map((step, index) => step.instruction || `Step ${index + 1}`);
+
+  const stopServer = await startFixtureServer();
+  try {
+    console.log(`Running "${script.name || path.basename(scriptPath)}" against http://localhost:${port}`);
+    const tester = new WebSiteTest({ url: `http://localhost:${port}`, customSteps, options: { headless: true } });
+    const result = await tester.runTestWithCustomSteps(`http://localhost:${port}`, customSteps);
+
+    for (const step of result.customStepsResults || []) {
+      console.log(`${step.success ? 'PASS' : 'FAIL'} ${step.instruction}${step.error ? ` (${step.error})` : ''}`);
+    }
+    const skipped = customSteps.length - (result.customStepsResults?.length || 0);
+    if (skipped > 0) {
+      console.log(`${skipped} steps did not run`);
+    }
+    return result.success;
+  } finally {
+    stopServer();
+  }
+}
+
+main().then(success => {
+  console.log(success ? 'Offline run passed' : 'Offline run failed');
+  process.exit(success ? 0 : 1);
+}, error => {
+  console.error('Offline run failed:', error);
+  process.exit(1);
+});
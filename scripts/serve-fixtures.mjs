@@ -0,0 +1,43 @@
+// Serves the static fixture site in fixtures/site for offline end-to-end runs
+// Usage: node scripts/serve-fixtures.mjs [port]
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/site');
+const port = Number(process.argv[2] || process.env.FIXTURE_PORT) || 4173;
+
+const contentTypes = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml'
+};
+
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', `http://localhost:${port}`);
+  const relativePath = pathname === '/' ? 'index.html' : decodeURIComponent(pathname).replace(/^\/+/, '');
+  const filePath = path.resolve(root, relativePath);
+
+  // Never serve files outside the fixture directory
+  if (!filePath.startsWith(root + path.sep)) {
+    res.writeHead(403).end('Forbidden');
+    return;
+  }
+
+  fs.readFile(filePath, (error, data) => {
+    if (error) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': contentTypes[path.extname(filePath)] || 'application/octet-stream' });
+    res.end(data);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Fixture site available at http://localhost:${port}`);
+});
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestDataProfileService } from '@/lib/services/TestDataProfileService';
+import { testDataProfileSettingsSchema } from '@/lib/schemas';
+
+/**
+ * API Route for getting a test data profile
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const profile = TestDataProfileService.getInstance().getProfile(params.name);
+    
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: "Test data profile not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('Error fetching test data profile:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch test data profile", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for replacing the settings of a test data profile
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = testDataProfileSettingsSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid test data profile", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const profileService = TestDataProfileService.getInstance();
+    if (!profileService.getProfile(params.name)) {
+      return NextResponse.json(
+        { success: false, error: "Test data profile not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const profile = profileService.saveProfile({ ...validationResult.data, name: params.name });
+    
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('Error updating test data profile:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to update test data profile", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a test data profile
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const deleted = TestDataProfileService.getInstance().deleteProfile(params.name);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Test data profile not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting test data profile:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to delete test data profile", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
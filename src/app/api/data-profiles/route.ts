@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestDataProfileService } from '@/lib/services/TestDataProfileService';
+import { testDataProfileInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for listing test data profiles
+ */
+export async function GET() {
+  try {
+    const profiles = TestDataProfileService.getInstance().getAllProfiles();
+    
+    return NextResponse.json({ success: true, profiles });
+  } catch (error) {
+    console.error('Error fetching test data profiles:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch test data profiles", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for creating a test data profile
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = testDataProfileInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid test data profile", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const profileService = TestDataProfileService.getInstance();
+    if (profileService.getProfile(validationResult.data.name)) {
+      return NextResponse.json(
+        { success: false, error: "A test data profile with this name already exists" }, 
+        { status: 409 }
+      );
+    }
+    
+    const profile = profileService.saveProfile(validationResult.data);
+    
+    return NextResponse.json({ success: true, profile }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating test data profile:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to create test data profile", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
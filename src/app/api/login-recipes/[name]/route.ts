@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LoginRecipeService } from '@/lib/services/LoginRecipeService';
+import { SecretService } from '@/lib/services/SecretService';
+import { loginRecipeInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for getting a login recipe
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const recipeService = LoginRecipeService.getInstance();
+    const recipe = recipeService.getRecipe(params.name);
+    
+    if (!recipe) {
+      return NextResponse.json(
+        { success: false, error: "Login recipe not found" },
+        { status: 404 }
+      );
+    }
+    
+    // Only the expiry of the cached session is exposed, never its cookies
+    const session = recipeService.getSession(params.name);
+    
+    return NextResponse.json({ success: true, recipe, sessionExpiresAt: session?.expiresAt || null });
+  } catch (error) {
+    console.error('Error fetching login recipe:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch login recipe",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for replacing a login recipe
+ * Its cached session is dropped so the next test logs in again
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = loginRecipeInputSchema.safeParse({ ...body, name: params.name });
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid login recipe",
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+    
+    const missingSecret = SecretService.getInstance().findUndefinedSecret(
+      validationResult.data.steps.map(step => step.value || '')
+    );
+    if (missingSecret) {
+      return NextResponse.json(
+        { success: false, error: `Secret ${missingSecret} is not defined` },
+        { status: 400 }
+      );
+    }
+    
+    const recipeService = LoginRecipeService.getInstance();
+    if (!recipeService.getRecipe(params.name)) {
+      return NextResponse.json(
+        { success: false, error: "Login recipe not found" },
+        { status: 404 }
+      );
+    }
+    
+    const recipe = recipeService.saveRecipe(validationResult.data);
+    
+    return NextResponse.json({ success: true, recipe });
+  } catch (error) {
+    console.error('Error updating login recipe:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update login recipe",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a login recipe and its cached session
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const deleted = LoginRecipeService.getInstance().deleteRecipe(params.name);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Login recipe not found" },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting login recipe:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete login recipe",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LoginRecipeService } from '@/lib/services/LoginRecipeService';
+
+/**
+ * API Route for dropping the cached session of a login recipe
+ * The next test using the recipe logs in again, e.g. after the password changed
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const recipeService = LoginRecipeService.getInstance();
+    
+    if (!recipeService.getRecipe(params.name)) {
+      return NextResponse.json(
+        { success: false, error: "Login recipe not found" },
+        { status: 404 }
+      );
+    }
+    
+    const cleared = recipeService.clearSession(params.name);
+    
+    return NextResponse.json({ success: true, cleared });
+  } catch (error) {
+    console.error('Error clearing login session:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to clear login session",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LoginRecipeService } from '@/lib/services/LoginRecipeService';
+import { SecretService } from '@/lib/services/SecretService';
+import { loginRecipeInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for listing login recipes
+ */
+export async function GET() {
+  try {
+    const recipes = LoginRecipeService.getInstance().getAllRecipes();
+    
+    return NextResponse.json({ success: true, recipes });
+  } catch (error) {
+    console.error('Error fetching login recipes:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch login recipes",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for creating a login recipe
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = loginRecipeInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid login recipe",
+          details: validationResult.error.errors
+        },
+        { status: 400 }
+      );
+    }
+    
+    const missingSecret = SecretService.getInstance().findUndefinedSecret(
+      validationResult.data.steps.map(step => step.value || '')
+    );
+    if (missingSecret) {
+      return NextResponse.json(
+        { success: false, error: `Secret ${missingSecret} is not defined` },
+        { status: 400 }
+      );
+    }
+    
+    const recipeService = LoginRecipeService.getInstance();
+    if (recipeService.getRecipe(validationResult.data.name)) {
+      return NextResponse.json(
+        { success: false, error: "A login recipe with this name already exists" },
+        { status: 409 }
+      );
+    }
+    
+    const recipe = recipeService.saveRecipe(validationResult.data);
+    
+    return NextResponse.json({ success: true, recipe }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating login recipe:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create login recipe",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { TestResultService } from '@/lib/services/TestResultService';
+import { resolveArtifactPath } from '@/lib/storage/artifactStorage';
+
+// The hosted trace viewer fetches traces from the browser
+const TRACE_VIEWER_ORIGIN = 'https://trace.playwright.dev';
+
+/**
+ * API Route for downloading a trace or video recorded during a test
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; name: string } }
+) {
+  try {
+    const testStatus = TestResultService.getInstance().getTestStatus(params.id);
+    const artifact = testStatus?.result?.artifacts?.find(item => item.name === params.name);
+    const filePath = artifact ? resolveArtifactPath(params.id, artifact.name) : null;
+    
+    if (!artifact || !filePath) {
+      return NextResponse.json(
+        { success: false, error: "Artifact not found" },
+        { status: 404 }
+      );
+    }
+    
+    let file: Buffer;
+    try {
+      file = await fs.promises.readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      
+      // Listed artifacts are missing if saving them failed
+      return NextResponse.json(
+        { success: false, error: "Artifact file not available" },
+        { status: 404 }
+      );
+    }
+    
+    const download = request.nextUrl.searchParams.get('download') === 'true';
+    
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': artifact.contentType,
+        'Content-Length': String(file.length),
+        'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${params.id}-${artifact.name}"`,
+        'Cache-Control': 'private, max-age=3600',
+        ...(artifact.type === 'trace' ? { 'Access-Control-Allow-Origin': TRACE_VIEWER_ORIGIN } : {})
+      }
+    });
+  } catch (error) {
+    console.error('Error reading test artifact:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to read test artifact", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
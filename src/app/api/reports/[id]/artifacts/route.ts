@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestResultService } from '@/lib/services/TestResultService';
+
+/**
+ * API Route for listing the trace and video files recorded during a test
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const testStatus = TestResultService.getInstance().getTestStatus(params.id);
+    
+    if (!testStatus) {
+      return NextResponse.json(
+        { success: false, error: "Test report not found" },
+        { status: 404 }
+      );
+    }
+    
+    const artifacts = (testStatus.result?.artifacts || []).map(artifact => ({
+      ...artifact,
+      url: `/api/reports/${encodeURIComponent(params.id)}/artifacts/${artifact.name}`
+    }));
+    
+    return NextResponse.json({ success: true, artifacts });
+  } catch (error) {
+    console.error('Error listing test artifacts:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to list test artifacts", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TestResultService } from '@/lib/services/TestResultService';
+import { generatePlaywrightSpec } from '@/lib/playwrightExport';
+import { describeAuth, getScreenshotUrl } from '@/lib/utils';
+import { SecretService } from '@/lib/services/SecretService';
+import { redactSecrets } from '@/lib/redaction';
 
 /**
  * API Route for retrieving specific test report by ID
@@ -33,7 +37,8 @@ export async function GET(
     const searchParams = request.nextUrl.searchParams;
     const format = searchParams.get('format') || 'json';
     
-    const report = {
+    // Results are redacted when stored; redacting again covers secrets saved since
+    const report = redactSecrets({
       id: historyItem.id,
       url: historyItem.url,
       timestamp: historyItem.timestamp,
@@ -44,7 +49,7 @@ export async function GET(
       details: testStatus?.result || null,
       executionTime: testStatus?.result ? 
         `${Math.round(testStatus.result.totalDuration / 1000)}s` : 'Unknown'
-    };
+    }, SecretService.getInstance().createRedactor());
     
     // Handle different output formats
     switch (format.toLowerCase()) {
@@ -68,6 +73,23 @@ export async function GET(
           }
         });
         
+      case 'playwright':
+        // @playwright/test spec repeating the executed actions
+        if (!report.details) {
+          return NextResponse.json(
+            { success: false, error: "Test result not available" },
+            { status: 404 }
+          );
+        }
+        
+        const spec = generatePlaywrightSpec(report.details);
+        return new NextResponse(spec, {
+          headers: {
+            'Content-Type': 'text/plain; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${report.id}.spec.ts"`
+          }
+        });
+        
       case 'json':
       default:
         return NextResponse.json(report);
@@ -86,33 +108,72 @@ export async function GET(
   }
 }
 
+/**
+ * Escape text for the HTML report
+ * Everything interpolated into the report is escaped, as results carry text from the tested site
+ */
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * A URL the report may link to; anything but http(s), e.g. javascript:, is dropped
+ */
+function safeHref(url: string): string {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol) ? escapeHtml(url) : '#';
+  } catch {
+    return '#';
+  }
+}
+
 /**
  * Generate a simple HTML report
  */
 function generateHtmlReport(report: any): string {
   const stepsHtml = report.details?.steps?.map((step: any) => `
     <div class="step">
-      <h3>${step.name} - ${step.status}</h3>
+      <h3>${escapeHtml(step.name)} - ${escapeHtml(step.status)}</h3>
       ${step.duration ? `<p>Duration: ${Math.round(step.duration)}ms</p>` : ''}
-      ${step.error ? `<p class="error">Error: ${step.error}</p>` : ''}
-      ${step.screenshot ? `<img src="data:image/png;base64,${step.screenshot}" alt="Step screenshot" />` : ''}
+      ${step.error ? `<p class="error">Error: ${escapeHtml(step.error)}</p>` : ''}
+      ${step.screenshot ? `<img src="${escapeHtml(getScreenshotUrl(step.screenshot))}" alt="Step screenshot" />` : ''}
     </div>
   `).join('') || '';
   
   const customStepsHtml = report.details?.customStepsResults?.map((step: any) => `
     <div class="step">
-      <h3>${step.instruction} - ${step.status}</h3>
-      ${step.error ? `<p class="error">Error: ${step.error}</p>` : ''}
-      ${step.screenshot ? `<img src="data:image/png;base64,${step.screenshot}" alt="Step screenshot" />` : ''}
+      <h3>${escapeHtml(step.instruction)} - ${escapeHtml(step.status)}</h3>
+      ${step.error ? `<p class="error">Error: ${escapeHtml(step.error)}</p>` : ''}
+      ${step.screenshot ? `<img src="${escapeHtml(getScreenshotUrl(step.screenshot))}" alt="Step screenshot" />` : ''}
     </div>
   `).join('') || '';
   
+  // The browser and identity the run used, so it can be reproduced
+  const environment = report.details?.environment;
+  const environmentHtml = environment ? `
+    <table class="environment">
+      <tr><th>Browser</th><td>${escapeHtml(environment.browser)}${environment.browserVersion ? ` ${escapeHtml(environment.browserVersion)}` : ''}</td></tr>
+      <tr><th>Device</th><td>${escapeHtml(environment.device || 'Desktop')} (${escapeHtml(environment.viewport.width)}x${escapeHtml(environment.viewport.height)}${environment.isMobile ? ', mobile' : ''})</td></tr>
+      ${environment.locale || environment.timezoneId ? `<tr><th>Locale</th><td>${escapeHtml([environment.locale, environment.timezoneId].filter(Boolean).join(', '))}</td></tr>` : ''}
+      <tr><th>User Agent</th><td>${escapeHtml(environment.userAgent)} (${escapeHtml(environment.userAgentPreset)})</td></tr>
+      ${Object.keys(environment.extraHeaders || {}).map(name => `<tr><th>Header</th><td>${escapeHtml(name)}</td></tr>`).join('')}
+      ${environment.geolocation ? `<tr><th>Geolocation</th><td>${escapeHtml(environment.geolocation.latitude)}, ${escapeHtml(environment.geolocation.longitude)}</td></tr>` : ''}
+      ${environment.permissions?.length ? `<tr><th>Permissions</th><td>${escapeHtml(environment.permissions.join(', '))}</td></tr>` : ''}
+      ${environment.auth ? `<tr><th>Authentication</th><td>${escapeHtml(describeAuth(environment.auth))}</td></tr>` : ''}
+    </table>
+  ` : '';
+  
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Test Report: ${report.id}</title>
+  <title>Test Report: ${escapeHtml(report.id)}</title>
   <style>
     body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 1200px; margin: 0 auto; padding: 1rem; }
     h1, h2 { color: #333; }
@@ -123,10 +184,12 @@ function generateHtmlReport(report: any): string {
     .step img { max-width: 100%; border: 1px solid #ccc; border-radius: 4px; margin-top: 0.5rem; }
     .stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(250px, 1fr)); gap: 1rem; margin-bottom: 1rem; }
     .stat-card { background: #f9f9f9; padding: 1rem; border-radius: 4px; }
+    .environment th { text-align: left; padding-right: 1rem; vertical-align: top; }
+    .environment td { font-family: monospace; word-break: break-all; }
   </style>
 </head>
 <body>
-  <h1>Test Report: ${report.id}</h1>
+  <h1>Test Report: ${escapeHtml(report.id)}</h1>
   <p>Generated at: ${new Date().toLocaleString()}</p>
   
   <div class="stats">
@@ -136,7 +199,7 @@ function generateHtmlReport(report: any): string {
     </div>
     <div class="stat-card">
       <h3>URL</h3>
-      <p><a href="${report.url}" target="_blank">${report.url}</a></p>
+      <p><a href="${safeHref(report.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(report.url)}</a></p>
     </div>
     <div class="stat-card">
       <h3>Timestamp</h3>
@@ -144,7 +207,7 @@ function generateHtmlReport(report: any): string {
     </div>
     <div class="stat-card">
       <h3>Execution Time</h3>
-      <p>${report.executionTime}</p>
+      <p>${escapeHtml(report.executionTime)}</p>
     </div>
     <div class="stat-card">
       <h3>Primary CTA Found</h3>
@@ -158,9 +221,10 @@ function generateHtmlReport(report: any): string {
   
   ${report.error ? `<div class="error-section">
     <h2>Error</h2>
-    <p class="error">${report.error}</p>
+    <p class="error">${escapeHtml(report.error)}</p>
   </div>` : ''}
   
+  ${environmentHtml ? `<h2>Environment</h2>${environmentHtml}` : ''}
   ${stepsHtml ? `<h2>Test Steps</h2>${stepsHtml}` : ''}
   ${customStepsHtml ? `<h2>Custom Steps</h2>${customStepsHtml}` : ''}
 </body>
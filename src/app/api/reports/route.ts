@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TestResultService } from '@/lib/services/TestResultService';
+import { getDomainStats, summarizeHistory } from '@/lib/reportStats';
 
 /**
  * API Route for generating and retrieving reports
@@ -10,50 +11,14 @@ export async function GET(request: NextRequest) {
     const history = testResultService.getAllTestHistory();
     
     // Generate a report with statistics
-    const totalTests = history.length;
-    const successfulTests = history.filter(item => item.success).length;
-    const failedTests = totalTests - successfulTests;
-    const successRate = totalTests > 0 ? Math.round((successfulTests / totalTests) * 100) : 0;
+    const summary = summarizeHistory(history);
     
     // Group by URL domain
-    const urlGroups = history.reduce((groups, item) => {
-      try {
-        const url = new URL(item.url);
-        const domain = url.hostname;
-        
-        if (!groups[domain]) {
-          groups[domain] = {
-            domain,
-            totalTests: 0,
-            successfulTests: 0,
-            failedTests: 0
-          };
-        }
-        
-        groups[domain].totalTests++;
-        if (item.success) {
-          groups[domain].successfulTests++;
-        } else {
-          groups[domain].failedTests++;
-        }
-        
-        return groups;
-      } catch (e) {
-        // Handle invalid URLs
-        return groups;
-      }
-    }, {} as Record<string, any>);
-    
-    const domainStats = Object.values(urlGroups);
+    const domainStats = getDomainStats(history);
     
     const report = {
       generatedAt: new Date().toISOString(),
-      summary: {
-        totalTests,
-        successfulTests,
-        failedTests,
-        successRate
-      },
+      summary,
       domainStats,
       recentTests: history.slice(0, 10) // Latest 10 tests
     };
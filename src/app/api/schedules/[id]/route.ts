@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ScheduleService } from '@/lib/services/ScheduleService';
+import { TestResultService } from '@/lib/services/TestResultService';
+
+const updateScheduleSchema = z.object({
+  paused: z.boolean()
+});
+
+/**
+ * API Route for getting a schedule
+ * Each run in the history includes the current status of the test it queued
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const schedule = ScheduleService.getInstance().getSchedule(params.id);
+    
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: "Schedule not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const testResultService = TestResultService.getInstance();
+    const history = schedule.history.map(run => ({
+      ...run,
+      testStatus: run.testId ? testResultService.getTestStatus(run.testId)?.status : undefined
+    }));
+    
+    return NextResponse.json({ success: true, schedule: { ...schedule, history } });
+  } catch (error) {
+    console.error('Error fetching schedule:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch schedule", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for pausing or resuming a schedule
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = updateScheduleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid schedule update", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const schedule = ScheduleService.getInstance().setPaused(params.id, validationResult.data.paused);
+    
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: "Schedule not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, schedule });
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to update schedule", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a schedule
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = ScheduleService.getInstance().deleteSchedule(params.id);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Schedule not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to delete schedule", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScheduleService } from '@/lib/services/ScheduleService';
+import { TestSuiteService } from '@/lib/services/TestSuiteService';
+import { scheduleInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for listing schedules
+ */
+export async function GET() {
+  try {
+    const schedules = ScheduleService.getInstance().getAllSchedules();
+    
+    return NextResponse.json({ success: true, schedules });
+  } catch (error) {
+    console.error('Error fetching schedules:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch schedules", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for creating a schedule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = scheduleInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid schedule", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const input = validationResult.data;
+    if (input.suiteId && !TestSuiteService.getInstance().getSuite(input.suiteId)) {
+      return NextResponse.json(
+        { success: false, error: "Suite not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const schedule = ScheduleService.getInstance().createSchedule(input);
+    
+    return NextResponse.json({ success: true, schedule }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to create schedule", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
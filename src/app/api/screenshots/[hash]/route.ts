@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScreenshotService } from '@/lib/services/ScreenshotService';
+
+/**
+ * API Route for serving a stored screenshot
+ * Screenshots are addressed by their content, so they never change and can be cached forever
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { hash: string } }
+) {
+  try {
+    const etag = `"${params.hash}"`;
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+    
+    const screenshot = ScreenshotService.getInstance().get(params.hash);
+    
+    if (!screenshot) {
+      return NextResponse.json(
+        { success: false, error: "Screenshot not found" },
+        { status: 404 }
+      );
+    }
+    
+    return new NextResponse(screenshot.data, {
+      headers: {
+        'Content-Type': screenshot.contentType,
+        'Content-Length': String(screenshot.data.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ETag: etag
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching screenshot:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch screenshot", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CompiledScriptService } from '@/lib/services/CompiledScriptService';
+
+/**
+ * API Route for getting a compiled script
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const script = CompiledScriptService.getInstance().getScript(params.id);
+    
+    if (!script) {
+      return NextResponse.json(
+        { success: false, error: "Compiled script not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, script });
+  } catch (error) {
+    console.error('Error fetching compiled script:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch compiled script", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a compiled script
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = CompiledScriptService.getInstance().deleteScript(params.id);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Compiled script not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting compiled script:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to delete compiled script", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
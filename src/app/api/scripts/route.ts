@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { CompiledScriptService } from '@/lib/services/CompiledScriptService';
+
+/**
+ * API Route for listing compiled scripts
+ */
+export async function GET() {
+  try {
+    const scripts = CompiledScriptService.getInstance().getAllScripts();
+    
+    return NextResponse.json({ success: true, scripts });
+  } catch (error) {
+    console.error('Error fetching compiled scripts:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch compiled scripts", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecretService } from '@/lib/services/SecretService';
+import { secretInputSchema, secretNameSchema } from '@/lib/schemas';
+
+/**
+ * API Route for creating or replacing a secret
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const body = await request.json();
+    
+    const nameResult = secretNameSchema.safeParse(params.name);
+    const validationResult = secretInputSchema.safeParse(body);
+    if (!nameResult.success || !validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid secret",
+          details: [...(nameResult.error?.errors || []), ...(validationResult.error?.errors || [])]
+        },
+        { status: 400 }
+      );
+    }
+    
+    const secret = SecretService.getInstance().saveSecret(params.name, validationResult.data.value);
+    
+    return NextResponse.json({ success: true, secret });
+  } catch (error) {
+    console.error('Error saving secret:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to save secret",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a secret
+ * Secrets set through the environment can only be removed there
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { name: string } }
+) {
+  try {
+    const deleted = SecretService.getInstance().deleteSecret(params.name);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Secret not found" },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting secret:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete secret",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { SecretService } from '@/lib/services/SecretService';
+
+/**
+ * API Route for listing secrets
+ * Only names are returned, never values
+ */
+export async function GET() {
+  try {
+    const secrets = SecretService.getInstance().listSecrets();
+    
+    return NextResponse.json({ success: true, secrets });
+  } catch (error) {
+    console.error('Error fetching secrets:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch secrets",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestSuiteService } from '@/lib/services/TestSuiteService';
+import { z } from 'zod';
+
+const cloneSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional()
+});
+
+/**
+ * API Route for cloning a suite
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // The body is optional; an empty request clones with a default name
+    const body = await request.json().catch(() => ({}));
+    
+    const validationResult = cloneSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid request", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const suite = TestSuiteService.getInstance().cloneSuite(params.id, validationResult.data.name);
+    
+    if (!suite) {
+      return NextResponse.json(
+        { success: false, error: "Suite not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, suite }, { status: 201 });
+  } catch (error) {
+    console.error('Error cloning suite:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to clone suite", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
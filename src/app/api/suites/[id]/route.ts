@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestSuiteService } from '@/lib/services/TestSuiteService';
+import { suiteInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for getting a suite
+ * Returns the latest version, or a specific one with ?version=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const suiteService = TestSuiteService.getInstance();
+    const version = request.nextUrl.searchParams.get('version');
+    
+    const suite = version
+      ? suiteService.getSuiteVersion(params.id, Number(version))
+      : suiteService.getSuite(params.id);
+    
+    if (!suite) {
+      return NextResponse.json(
+        { success: false, error: "Suite not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, suite });
+  } catch (error) {
+    console.error('Error fetching suite:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch suite", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for updating a suite
+ * Every update creates a new version
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = suiteInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid suite", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const suite = TestSuiteService.getInstance().updateSuite(params.id, validationResult.data);
+    
+    if (!suite) {
+      return NextResponse.json(
+        { success: false, error: "Suite not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, suite });
+  } catch (error) {
+    console.error('Error updating suite:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to update suite", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a suite and its versions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = TestSuiteService.getInstance().deleteSuite(params.id);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Suite not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting suite:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to delete suite", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
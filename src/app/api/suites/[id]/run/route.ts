@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestSuiteService } from '@/lib/services/TestSuiteService';
+import { TestResultService } from '@/lib/services/TestResultService';
+import { TestDataProfileService } from '@/lib/services/TestDataProfileService';
+import { LoginRecipeService } from '@/lib/services/LoginRecipeService';
+import { TestJobQueue } from '@/lib/queue/TestJobQueue';
+import { WebSiteTest } from '@/lib/playwright/WebSiteTest';
+
+/**
+ * API Route for running the latest version of a suite
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const suiteService = TestSuiteService.getInstance();
+    const suite = suiteService.getSuite(params.id);
+    
+    if (!suite) {
+      return NextResponse.json(
+        { success: false, error: "Suite not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    if (TestDataProfileService.getInstance().findMissingProfile(suite.options?.dataProfile)) {
+      return NextResponse.json(
+        { success: false, error: "Test data profile not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const testRequest = {
+      url: suite.baseUrl,
+      customSteps: suite.customSteps,
+      options: suite.options,
+      suite: suiteService.toRef(suite)
+    };
+    
+    const recipeProblem = LoginRecipeService.getInstance().findRecipeProblem(suite.options?.auth?.loginRecipe, suite.baseUrl);
+    if (recipeProblem) {
+      return NextResponse.json(
+        { success: false, error: recipeProblem.error }, 
+        { status: recipeProblem.notFound ? 404 : 400 }
+      );
+    }
+    
+    const tracedSecret = WebSiteTest.findTracedSecret(testRequest);
+    if (tracedSecret) {
+      return NextResponse.json(
+        { success: false, error: `recordTrace cannot be used with secret ${tracedSecret}, as traces are not redacted` }, 
+        { status: 400 }
+      );
+    }
+    
+    const testQueue = TestJobQueue.getInstance();
+    if (testQueue.isFull()) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Test queue is full", 
+          message: "Too many tests are waiting to run. Please try again later."
+        }, 
+        { status: 503 }
+      );
+    }
+    
+    const testId = testQueue.enqueue(testRequest);
+    const testStatus = TestResultService.getInstance().getTestStatus(testId);
+    
+    console.log(`Suite ${suite.id} v${suite.version} queued. Test ID: ${testId}`);
+    
+    return NextResponse.json(
+      { 
+        success: true, 
+        testId, 
+        status: testStatus 
+      }, 
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error running suite:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to run suite", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestSuiteService } from '@/lib/services/TestSuiteService';
+import { suiteInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for listing saved suites
+ * Supports filtering by tag with ?tag=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const tag = request.nextUrl.searchParams.get('tag') || undefined;
+    const suites = TestSuiteService.getInstance().getAllSuites(tag);
+    
+    return NextResponse.json({ success: true, suites });
+  } catch (error) {
+    console.error('Error fetching suites:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch suites", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for creating a suite
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = suiteInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid suite", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const suite = TestSuiteService.getInstance().createSuite(validationResult.data);
+    
+    return NextResponse.json({ success: true, suite }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating suite:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to create suite", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
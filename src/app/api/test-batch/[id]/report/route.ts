@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestBatchService } from '@/lib/services/TestBatchService';
+import { getDomainStats, summarizeHistory } from '@/lib/reportStats';
+
+/**
+ * API Route for the report of a batch
+ * Rolls up the finished tests like /api/reports does for all history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchService = TestBatchService.getInstance();
+    const history = batchService.getBatchHistory(params.id);
+    const batchStatus = batchService.getBatchStatus(params.id);
+    
+    if (!history || !batchStatus) {
+      return NextResponse.json(
+        { success: false, error: "Batch not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const report = {
+      batchId: batchStatus.batchId,
+      generatedAt: new Date().toISOString(),
+      status: batchStatus.status,
+      counts: batchStatus.counts,
+      summary: summarizeHistory(history),
+      domainStats: getDomainStats(history),
+      tests: history
+    };
+    
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error generating batch report:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to generate batch report", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestJobQueue } from '@/lib/queue/TestJobQueue';
+import { TestBatchService } from '@/lib/services/TestBatchService';
+
+/**
+ * API Route for getting the aggregated status of a batch
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchStatus = TestBatchService.getInstance().getBatchStatus(params.id);
+    
+    if (!batchStatus) {
+      return NextResponse.json(
+        { success: false, error: "Batch not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, ...batchStatus });
+  } catch (error) {
+    console.error('Error fetching batch status:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch batch status", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for cancelling every unfinished test in a batch
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const batchService = TestBatchService.getInstance();
+    const batch = batchService.getBatch(params.id);
+    
+    if (!batch) {
+      return NextResponse.json(
+        { success: false, error: "Batch not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const testQueue = TestJobQueue.getInstance();
+    const cancelledTestIds = batch.items
+      .filter(item => testQueue.cancel(item.testId, 'Batch cancelled by user'))
+      .map(item => item.testId);
+    
+    // Running tests are recorded as cancelled once their browser has shut down
+    return NextResponse.json(
+      { 
+        success: true, 
+        cancelledTestIds, 
+        status: batchService.getBatchStatus(batch.id) 
+      }, 
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error cancelling batch:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to cancel batch", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
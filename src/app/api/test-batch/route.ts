@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestWebsiteRequest } from '@/lib/types';
+import { TestJobQueue } from '@/lib/queue/TestJobQueue';
+import { TestBatchService } from '@/lib/services/TestBatchService';
+import { TestDataProfileService } from '@/lib/services/TestDataProfileService';
+import { LoginRecipeService } from '@/lib/services/LoginRecipeService';
+import { WebSiteTest } from '@/lib/playwright/WebSiteTest';
+import { batchRequestSchema } from '@/lib/schemas';
+
+/**
+ * API Route for testing many URLs at once
+ * Every URL is queued as its own test on the shared worker pool
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = batchRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid request", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const { urls, customSteps, options } = validationResult.data;
+    
+    if (TestDataProfileService.getInstance().findMissingProfile(options?.dataProfile)) {
+      return NextResponse.json(
+        { success: false, error: "Test data profile not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const testRequests: TestWebsiteRequest[] = urls.map(entry =>
+      typeof entry === 'string'
+        ? { url: entry, customSteps, options }
+        : { url: entry.url, customSteps: entry.customSteps || customSteps, options }
+    );
+    
+    const recipeProblem = testRequests
+      .map(testRequest => LoginRecipeService.getInstance().findRecipeProblem(options?.auth?.loginRecipe, testRequest.url))
+      .find(Boolean);
+    if (recipeProblem) {
+      return NextResponse.json(
+        { success: false, error: recipeProblem.error }, 
+        { status: recipeProblem.notFound ? 404 : 400 }
+      );
+    }
+    
+    const tracedSecret = testRequests.map(WebSiteTest.findTracedSecret).find(Boolean);
+    if (tracedSecret) {
+      return NextResponse.json(
+        { success: false, error: `recordTrace cannot be used with secret ${tracedSecret}, as traces are not redacted` }, 
+        { status: 400 }
+      );
+    }
+    
+    // Queue the whole batch or none of it
+    const testQueue = TestJobQueue.getInstance();
+    if (testQueue.getRemainingCapacity() < testRequests.length) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Test queue is full", 
+          message: `The queue only has room for ${testQueue.getRemainingCapacity()} more tests. Please try again later or submit a smaller batch.`
+        }, 
+        { status: 503 }
+      );
+    }
+    
+    const items = testRequests.map(testRequest => ({
+      url: testRequest.url,
+      testId: testQueue.enqueue(testRequest)
+    }));
+    
+    const batchService = TestBatchService.getInstance();
+    const batch = batchService.createBatch(items);
+    
+    console.log(`Batch queued. Batch ID: ${batch.id}, ${items.length} tests`);
+    
+    return NextResponse.json(
+      { 
+        success: true, 
+        batchId: batch.id, 
+        testIds: items.map(item => item.testId), 
+        status: batchService.getBatchStatus(batch.id) 
+      }, 
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error queueing test batch:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to queue test batch", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
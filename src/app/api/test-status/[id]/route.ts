@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TestResultService } from '@/lib/services/TestResultService';
+import { TestJobQueue } from '@/lib/queue/TestJobQueue';
 
 /**
  * API Route for getting the status of a test
@@ -42,4 +43,61 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+} 
+/**
+ * API Route for cancelling a queued or running test
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const testId = params.id;
+    
+    if (!testId) {
+      return NextResponse.json(
+        { success: false, error: "Test ID is required" }, 
+        { status: 400 }
+      );
+    }
+    
+    const testResultService = TestResultService.getInstance();
+    const testStatus = testResultService.getTestStatus(testId);
+    
+    if (!testStatus) {
+      return NextResponse.json(
+        { success: false, error: "Test not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    const cancelled = TestJobQueue.getInstance().cancel(testId);
+    
+    if (!cancelled) {
+      return NextResponse.json(
+        { success: false, error: `Test is already ${testStatus.status}` }, 
+        { status: 409 }
+      );
+    }
+    
+    // Running tests are recorded as cancelled once their browser has shut down
+    return NextResponse.json(
+      { 
+        success: true, 
+        status: testResultService.getTestStatus(testId) 
+      }, 
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error cancelling test:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to cancel test", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
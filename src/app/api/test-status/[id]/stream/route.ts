@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestResultService } from '@/lib/services/TestResultService';
+import { TestEvent, TestStatusResponse } from '@/lib/types';
+
+// Streams must never be cached or statically rendered
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Check if a test has reached a final state
+ */
+function isFinished(status: TestStatusResponse): boolean {
+  return status.status === 'completed' || status.status === 'failed' || status.status === 'cancelled';
+}
+
+/**
+ * API Route for streaming live test progress as Server-Sent Events
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const testId = params.id;
+
+    if (!testId) {
+      return NextResponse.json(
+        { success: false, error: "Test ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const testResultService = TestResultService.getInstance();
+    const testStatus = testResultService.getTestStatus(testId);
+
+    if (!testStatus) {
+      return NextResponse.json(
+        { success: false, error: "Test not found" },
+        { status: 404 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const send = (event: TestEvent) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        };
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // The client already cancelled the stream
+          }
+        };
+
+        // Always start with a snapshot so late subscribers see completed steps
+        send({ type: 'status', testId, status: testStatus });
+
+        if (isFinished(testStatus)) {
+          send({ type: 'result', testId, status: testStatus });
+          close();
+          return;
+        }
+
+        const unsubscribe = testResultService.subscribe(testId, (event) => {
+          send(event);
+          if (event.type === 'result') {
+            close();
+          }
+        });
+
+        const heartbeat = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          }
+        }, HEARTBEAT_INTERVAL);
+
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(heartbeat);
+        };
+
+        // Stop listening as soon as the client disconnects
+        request.signal.addEventListener('abort', close);
+      },
+      cancel() {
+        cleanup();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    });
+  } catch (error) {
+    console.error('Error streaming test status:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to stream test status",
+        message: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { WebSiteTest } from '@/lib/playwright/WebSiteTest';
-import { TestWebsiteRequest, TestWebsiteResponse } from '@/lib/types';
+import { TestWebsiteRequest } from '@/lib/types';
 import { TestResultService } from '@/lib/services/TestResultService';
+import { TestJobQueue } from '@/lib/queue/TestJobQueue';
+import { CompiledScriptService } from '@/lib/services/CompiledScriptService';
+import { TestDataProfileService } from '@/lib/services/TestDataProfileService';
+import { TestBatchService } from '@/lib/services/TestBatchService';
+import { LoginRecipeService } from '@/lib/services/LoginRecipeService';
+import { getProfileLabel } from '@/lib/playwright/browserProfiles';
+import { WebSiteTest } from '@/lib/playwright/WebSiteTest';
 import { z } from 'zod';
+import { autoFillOptionsSchema, browserProfileSchema, crawlOptionsSchema, emailVerificationOptionsSchema, networkAssertionSchema, testOptionsSchema } from '@/lib/schemas';
 import { generateTestId } from '@/lib/utils';
 
 // Validation schema for the request
 const requestSchema = z.object({
   url: z.string().url({ message: "Invalid URL format" }),
   customSteps: z.array(z.string()).optional(),
-  options: z.object({
-    timeout: z.number().min(5000).max(120000).optional(),
-    screenshotCapture: z.boolean().optional(),
-    headless: z.boolean().optional()
-  }).optional()
+  options: testOptionsSchema.optional(),
+  replayScriptId: z.string().min(1).optional(),
+  crawl: crawlOptionsSchema.optional(),
+  autoFillForm: autoFillOptionsSchema.optional(),
+  verifyEmail: emailVerificationOptionsSchema.optional(),
+  networkAssertions: z.array(networkAssertionSchema).max(50).optional(),
+  matrix: z.array(browserProfileSchema).min(2, { message: "A matrix needs at least two profiles" }).max(6).optional()
 });
 
 /**
@@ -39,22 +48,111 @@ export async function POST(request: NextRequest) {
     
     const testRequest: TestWebsiteRequest = validationResult.data;
     
-    // Run the test
-    const tester = new WebSiteTest(testRequest);
+    // Replays default to the steps of the compiled script
+    if (testRequest.replayScriptId) {
+      const script = CompiledScriptService.getInstance().getScript(testRequest.replayScriptId);
+      if (!script) {
+        return NextResponse.json(
+          { success: false, error: "Compiled script not found" }, 
+          { status: 404 }
+        );
+      }
+      
+      if (!testRequest.customSteps?.length) {
+        testRequest.customSteps = script.steps.map(step => step.instruction);
+      }
+    }
     
-    // If custom steps are provided, use them in the test
-    const result: TestWebsiteResponse = await tester.runTestWithCustomSteps(testRequest.url, testRequest.customSteps || []);
+    if (TestDataProfileService.getInstance().findMissingProfile(testRequest.options?.dataProfile)) {
+      return NextResponse.json(
+        { success: false, error: "Test data profile not found" }, 
+        { status: 404 }
+      );
+    }
     
-    // Save result to test history service
-    const testResultService = TestResultService.getInstance();
-    testResultService.completeTest(result);
+    const recipeProblem = LoginRecipeService.getInstance().findRecipeProblem(testRequest.options?.auth?.loginRecipe, testRequest.url);
+    if (recipeProblem) {
+      return NextResponse.json(
+        { success: false, error: recipeProblem.error }, 
+        { status: recipeProblem.notFound ? 404 : 400 }
+      );
+    }
     
-    // Log success for debugging
-    console.log(`Test completed successfully. Test ID: ${result.testId}, History updated.`);
+    const tracedSecret = WebSiteTest.findTracedSecret(testRequest);
+    if (tracedSecret) {
+      return NextResponse.json(
+        { success: false, error: `recordTrace cannot be used with secret ${tracedSecret}, as traces are not redacted` }, 
+        { status: 400 }
+      );
+    }
     
-    return NextResponse.json(result);
+    const testQueue = TestJobQueue.getInstance();
+    
+    // A browser matrix queues the same test once per profile and groups the runs as a batch
+    if (testRequest.matrix) {
+      const { matrix, ...baseRequest } = testRequest;
+      
+      if (testQueue.getRemainingCapacity() < matrix.length) {
+        return NextResponse.json(
+          { 
+            success: false, 
+            error: "Test queue is full", 
+            message: `The queue only has room for ${testQueue.getRemainingCapacity()} more tests. Please try again later or use fewer profiles.`
+          }, 
+          { status: 503 }
+        );
+      }
+      
+      const items = matrix.map(({ name, ...profile }) => ({
+        url: baseRequest.url,
+        profile: getProfileLabel({ name, ...profile }),
+        testId: testQueue.enqueue({ ...baseRequest, options: { ...baseRequest.options, ...profile } })
+      }));
+      
+      const batchService = TestBatchService.getInstance();
+      const batch = batchService.createBatch(items);
+      
+      console.log(`Browser matrix queued. Batch ID: ${batch.id}, ${items.length} profiles`);
+      
+      return NextResponse.json(
+        { 
+          success: true, 
+          batchId: batch.id, 
+          testIds: items.map(item => item.testId), 
+          items,
+          status: batchService.getBatchStatus(batch.id) 
+        }, 
+        { status: 202 }
+      );
+    }
+    
+    if (testQueue.isFull()) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Test queue is full", 
+          message: "Too many tests are waiting to run. Please try again later."
+        }, 
+        { status: 503 }
+      );
+    }
+    
+    // Queue the test and return immediately; progress is available via /api/test-status/[id]
+    const testId = testQueue.enqueue(testRequest);
+    const testStatus = TestResultService.getInstance().getTestStatus(testId);
+    
+    console.log(`Test queued. Test ID: ${testId}`);
+    
+    return NextResponse.json(
+      { 
+        success: true, 
+        testId, 
+        status: testStatus 
+      }, 
+      { status: 202 }
+    );
   } catch (error) {
-    console.error('Error testing website interaction:', error);
+    console.error('Error queueing website test:', error);
     
     // If we have an error, try to record the failure
     try {
@@ -68,7 +166,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       { 
         success: false, 
-        error: "Failed to run test", 
+        error: "Failed to queue test", 
         message: error instanceof Error ? error.message : String(error)
       }, 
       { status: 500 }
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationService } from '@/lib/services/NotificationService';
+import { webhookInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for getting a webhook target
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const notificationService = NotificationService.getInstance();
+    const webhook = notificationService.getTarget(params.id);
+    
+    if (!webhook) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, webhook: notificationService.redact(webhook) });
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch webhook", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for updating a webhook target
+ * Omitting the secret keeps the current one
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = webhookInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid webhook", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const notificationService = NotificationService.getInstance();
+    const webhook = notificationService.updateTarget(params.id, validationResult.data);
+    
+    if (!webhook) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, webhook: notificationService.redact(webhook) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to update webhook", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for deleting a webhook target
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const deleted = NotificationService.getInstance().deleteTarget(params.id);
+    
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: "Webhook not found" }, 
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to delete webhook", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NotificationService } from '@/lib/services/NotificationService';
+import { webhookInputSchema } from '@/lib/schemas';
+
+/**
+ * API Route for listing webhook targets
+ * Secrets are never returned
+ */
+export async function GET() {
+  try {
+    const notificationService = NotificationService.getInstance();
+    const webhooks = notificationService.getAllTargets().map(target => notificationService.redact(target));
+    
+    return NextResponse.json({ success: true, webhooks });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to fetch webhooks", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API Route for creating a webhook target
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    const validationResult = webhookInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: "Invalid webhook", 
+          details: validationResult.error.errors 
+        }, 
+        { status: 400 }
+      );
+    }
+    
+    const notificationService = NotificationService.getInstance();
+    const webhook = notificationService.createTarget(validationResult.data);
+    
+    return NextResponse.json(
+      { success: true, webhook: notificationService.redact(webhook) }, 
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: "Failed to create webhook", 
+        message: error instanceof Error ? error.message : String(error)
+      }, 
+      { status: 500 }
+    );
+  }
+}
@@ -81,6 +81,15 @@ export default function HistoryPage() {
                     </CardTitle>
                     <CardDescription>
                       {formatDate(test.timestamp)}
+                      {test.suite && (
+                        <>
+                          {" • Suite: "}
+                          <Link href={`/suites?id=${test.suite.id}`} className="underline hover:text-foreground">
+                            {test.suite.name}
+                          </Link>
+                          {` (v${test.suite.version})`}
+                        </>
+                      )}
                     </CardDescription>
                   </div>
                   <StatusIndicator status={test.success ? "success" : "failure"} />
@@ -31,6 +31,9 @@ export default function RootLayout({
                   <a href="/" className="text-muted-foreground hover:text-foreground px-3 py-2 text-sm font-medium">
                     Home
                   </a>
+                  <a href="/suites" className="text-muted-foreground hover:text-foreground px-3 py-2 text-sm font-medium">
+                    Suites
+                  </a>
                   <a href="/history" className="text-muted-foreground hover:text-foreground px-3 py-2 text-sm font-medium">
                     Test History
                   </a>
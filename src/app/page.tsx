@@ -1,21 +1,156 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { toast } from "sonner";
 import UrlInputForm from "@/components/UrlInputForm";
 import TestResults from "@/components/TestResults";
+import MatrixResults from "@/components/MatrixResults";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { TestWebsiteResponse } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import {
+  BrowserProfile,
+  TestBatchItem,
+  TestBatchStatusResponse,
+  TestDecisionEvent,
+  TestProgressEvent,
+  TestResultEvent,
+  TestStatusEvent,
+  TestStatusResponse,
+  TestStepEvent,
+  TestWebsiteResponse
+} from "@/lib/types";
 import PageHeader from "@/components/PageHeader";
 
+// How often to check on a queued or running test when streaming is unavailable
+const STATUS_POLL_INTERVAL = 2000;
+
+// Profiles of the browser matrix: the desktop engines and the phones landing pages break on most
+const BROWSER_MATRIX: BrowserProfile[] = [
+  { name: "Desktop Chrome", browser: "chromium" },
+  { name: "Desktop Firefox", browser: "firefox" },
+  { name: "iPhone 13 (Safari)", device: "iPhone 13" },
+  { name: "Pixel 7 (Chrome)", device: "Pixel 7" }
+];
+
+// Placeholder result that live step events are merged into
+const createEmptyResult = (testId: string, url: string): TestWebsiteResponse => ({
+  testId,
+  url,
+  success: false,
+  primaryCTAFound: false,
+  interactionSuccessful: false,
+  steps: [],
+  totalDuration: 0,
+  errors: [],
+  customStepsResults: []
+});
+
 export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [testResults, setTestResults] = useState<TestWebsiteResponse | null>(null);
+  const [testStatus, setTestStatus] = useState<TestStatusResponse | null>(null);
+  const [liveResult, setLiveResult] = useState<TestWebsiteResponse | null>(null);
+  const [liveDecisions, setLiveDecisions] = useState<TestDecisionEvent[]>([]);
+  const [activeTestId, setActiveTestId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [matrixItems, setMatrixItems] = useState<TestBatchItem[] | null>(null);
+  const [matrixStatus, setMatrixStatus] = useState<TestBatchStatusResponse | null>(null);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+
+  const waitForTestResult = useCallback(async (testId: string): Promise<TestWebsiteResponse> => {
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+      
+      const response = await fetch(`/api/test-status/${testId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch test status');
+      }
+      
+      const status: TestStatusResponse = await response.json();
+      setTestStatus(status);
+      
+      if (status.status === 'completed' && status.result) {
+        return status.result as TestWebsiteResponse;
+      }
+      if (status.status === 'failed' || status.status === 'cancelled') {
+        throw new Error(status.error || `Test ${status.status}`);
+      }
+    }
+  }, []);
+
+  // Follow the run over Server-Sent Events, falling back to polling if the stream drops
+  const streamTestResult = useCallback((testId: string, url: string): Promise<TestWebsiteResponse> => {
+    return new Promise((resolve, reject) => {
+      const source = new EventSource(`/api/test-status/${testId}/stream`);
+      let settled = false;
+      
+      const finish = (status: TestStatusResponse) => {
+        settled = true;
+        source.close();
+        setTestStatus(status);
+        
+        if (status.status === 'completed' && status.result) {
+          resolve(status.result as TestWebsiteResponse);
+        } else {
+          reject(new Error(status.error || `Test ${status.status}`));
+        }
+      };
+      
+      source.addEventListener('status', (message) => {
+        const event: TestStatusEvent = JSON.parse((message as MessageEvent).data);
+        setTestStatus(event.status);
+        setLiveResult(event.status.result as TestWebsiteResponse || createEmptyResult(testId, event.status.url || url));
+      });
+      
+      source.addEventListener('progress', (message) => {
+        const event: TestProgressEvent = JSON.parse((message as MessageEvent).data);
+        setTestStatus(prev => ({
+          ...(prev || { testId, status: 'pending' }),
+          status: event.queuePosition ? 'pending' : 'running',
+          progress: event.progress,
+          queuePosition: event.queuePosition
+        }));
+      });
+      
+      source.addEventListener('decision', (message) => {
+        const event: TestDecisionEvent = JSON.parse((message as MessageEvent).data);
+        setLiveDecisions(prev => [...prev, event]);
+      });
+      
+      source.addEventListener('step', (message) => {
+        const event: TestStepEvent = JSON.parse((message as MessageEvent).data);
+        setLiveResult(prev => {
+          const base = prev || createEmptyResult(testId, url);
+          return {
+            ...base,
+            customStepsResults: [...(base.customStepsResults || []), event.stepResult]
+          };
+        });
+      });
+      
+      source.addEventListener('result', (message) => {
+        const event: TestResultEvent = JSON.parse((message as MessageEvent).data);
+        finish(event.status);
+      });
+      
+      source.onerror = () => {
+        if (settled) return;
+        settled = true;
+        source.close();
+        waitForTestResult(testId).then(resolve, reject);
+      };
+    });
+  }, [waitForTestResult]);
 
-  const runTest = async (url: string, customSteps?: string[], options?: { headless?: boolean }) => {
+  const runTest = async (url: string, customSteps?: string[], options?: { headless?: boolean, failOnConsoleErrors?: boolean, recordTrace?: boolean, recordVideo?: boolean, browserUserAgent?: boolean, crawl?: boolean, autoFillForm?: boolean, verifyEmail?: boolean, browserMatrix?: boolean }) => {
     try {
       setIsLoading(true);
       setTestResults(null);
+      setTestStatus(null);
+      setLiveResult(null);
+      setLiveDecisions([]);
+      setMatrixItems(null);
+      setMatrixStatus(null);
       
       // Check if URL is valid
       try {
@@ -34,8 +169,16 @@ export default function Home() {
           url, 
           customSteps,
           options: {
-            headless: options?.headless
-          }
+            headless: options?.headless,
+            failOnConsoleErrors: options?.failOnConsoleErrors,
+            recordTrace: options?.recordTrace,
+            recordVideo: options?.recordVideo,
+            identity: options?.browserUserAgent ? { userAgentPreset: "browser" } : undefined
+          },
+          crawl: options?.crawl ? {} : undefined,
+          autoFillForm: options?.autoFillForm ? {} : undefined,
+          verifyEmail: options?.verifyEmail ? {} : undefined,
+          matrix: options?.browserMatrix ? BROWSER_MATRIX : undefined
         }),
       });
       
@@ -44,7 +187,26 @@ export default function Home() {
         throw new Error(errorData.message || 'Failed to run test');
       }
       
-      const result: TestWebsiteResponse = await response.json();
+      // The API queues the test and returns its ID; follow it until it finishes
+      const { testId, batchId, items } = await response.json();
+      if (batchId) {
+        await followMatrix(batchId, items);
+      } else {
+        await followTest(testId, url);
+      }
+    } catch (error) {
+      console.error("Error running test:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to run test. Please try again.");
+      setIsLoading(false);
+    }
+  };
+
+  // Follow a queued or running test until it finishes and show its result
+  const followTest = useCallback(async (testId: string, url: string) => {
+    try {
+      setIsLoading(true);
+      setActiveTestId(testId);
+      const result = await streamTestResult(testId, url);
       setTestResults(result);
       
       // Show toast based on result
@@ -58,6 +220,72 @@ export default function Home() {
       toast.error(error instanceof Error ? error.message : "Failed to run test. Please try again.");
     } finally {
       setIsLoading(false);
+      setActiveTestId(null);
+      setIsCancelling(false);
+    }
+  }, [streamTestResult]);
+
+  // Poll a browser matrix until every profile has finished
+  const followMatrix = async (batchId: string, items: TestBatchItem[]) => {
+    try {
+      setIsLoading(true);
+      setActiveBatchId(batchId);
+      setMatrixItems(items);
+      
+      while (true) {
+        const response = await fetch(`/api/test-batch/${batchId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch browser matrix status');
+        }
+        
+        const status: TestBatchStatusResponse = await response.json();
+        setMatrixStatus(status);
+        
+        if (status.status === 'completed') {
+          if (status.tests.every(test => test.status === 'completed' && test.result?.success)) {
+            toast.success("Test passed on every browser profile!");
+          } else {
+            toast.error("Test failed on some browser profiles");
+          }
+          return;
+        }
+        
+        await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL));
+      }
+    } catch (error) {
+      console.error("Error running browser matrix:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to run test. Please try again.");
+    } finally {
+      setIsLoading(false);
+      setActiveBatchId(null);
+      setIsCancelling(false);
+    }
+  };
+
+  // Runs started elsewhere (e.g. from a saved suite) link here with ?testId=
+  useEffect(() => {
+    const testId = new URLSearchParams(window.location.search).get('testId');
+    if (testId) {
+      followTest(testId, '');
+    }
+  }, [followTest]);
+
+  const cancelTest = async () => {
+    if (!activeTestId && !activeBatchId) return;
+    
+    try {
+      setIsCancelling(true);
+      const url = activeBatchId ? `/api/test-batch/${activeBatchId}` : `/api/test-status/${activeTestId}`;
+      const response = await fetch(url, { method: 'DELETE' });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to cancel test');
+      }
+    } catch (error) {
+      console.error("Error cancelling test:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel test");
+      setIsCancelling(false);
     }
   };
 
@@ -82,29 +310,53 @@ export default function Home() {
         </Card>
       </section>
 
-      {(isLoading || testResults) && (
+      {(isLoading || testResults || matrixItems) && (
         <section className="max-w-5xl mx-auto">
           {isLoading ? (
-            <Card>
-              <CardHeader>
-                <CardTitle>Testing in progress...</CardTitle>
-                <CardDescription>
-                  Please wait while we test your website
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <p className="text-sm text-muted-foreground">
-                    We are currently testing your website with the specified steps. This may take up to a minute.
-                  </p>
-                  <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
-                    <div className="h-full bg-primary rounded-full animate-pulse" style={{ width: '60%' }}></div>
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                      <CardTitle>Testing in progress...</CardTitle>
+                      <CardDescription>
+                        Please wait while we test your website
+                      </CardDescription>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={cancelTest}
+                      disabled={(!activeTestId && !activeBatchId) || isCancelling}
+                    >
+                      {isCancelling ? "Cancelling..." : "Cancel Test"}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      {testStatus?.queuePosition
+                        ? `Your test is queued at position ${testStatus.queuePosition}. It will start as soon as a worker is free.`
+                        : "We are currently testing your website with the specified steps. This may take up to a minute."}
+                    </p>
+                    <div className="h-2 w-full bg-muted rounded-full overflow-hidden">
+                      <div className="h-full bg-primary rounded-full animate-pulse" style={{ width: `${(matrixItems ? matrixStatus?.progress : testStatus?.progress) || 5}%` }}></div>
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+              {matrixItems && (
+                <MatrixResults items={matrixItems} tests={matrixStatus?.tests || []} />
+              )}
+              {liveResult && (
+                <TestResults results={liveResult} isRunning liveDecisions={liveDecisions} />
+              )}
+            </div>
           ) : testResults ? (
             <TestResults results={testResults} />
+          ) : matrixItems ? (
+            <MatrixResults items={matrixItems} tests={matrixStatus?.tests || []} />
           ) : null}
         </section>
       )}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import SuiteEditor from "@/components/SuiteEditor";
+import { TestSuite, TestSuiteInput } from "@/lib/types";
+
+export default function SuitesPage() {
+  const router = useRouter();
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<TestSuite | "new" | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const loadSuites = async () => {
+    try {
+      const response = await fetch('/api/suites');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch suites');
+      }
+
+      const data = await response.json();
+      setSuites(data.suites);
+      return data.suites as TestSuite[];
+    } catch (error) {
+      console.error('Error loading suites:', error);
+      setSuites([]);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSuites().then((loaded) => {
+      // History items link here with ?id= to open the suite they came from
+      const suiteId = new URLSearchParams(window.location.search).get('id');
+      const linked = loaded.find(suite => suite.id === suiteId);
+      if (linked) {
+        setEditing(linked);
+      }
+    });
+  }, []);
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(new Date(dateString));
+  };
+
+  const saveSuite = async (input: TestSuiteInput) => {
+    const isNew = editing === "new";
+    const response = await fetch(isNew ? '/api/suites' : `/api/suites/${(editing as TestSuite).id}`, {
+      method: isNew ? 'POST' : 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Failed to save suite');
+    }
+
+    toast.success(isNew ? `Suite "${data.suite.name}" created` : `Saved version ${data.suite.version} of "${data.suite.name}"`);
+    setEditing(null);
+    await loadSuites();
+  };
+
+  const cloneSuite = async (suite: TestSuite) => {
+    try {
+      const response = await fetch(`/api/suites/${suite.id}/clone`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clone suite');
+      }
+
+      toast.success(`Created "${data.suite.name}"`);
+      await loadSuites();
+      setEditing(data.suite);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to clone suite");
+    }
+  };
+
+  const deleteSuite = async (suite: TestSuite) => {
+    if (!window.confirm(`Delete "${suite.name}" and all of its versions?`)) return;
+
+    try {
+      const response = await fetch(`/api/suites/${suite.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete suite');
+      }
+
+      toast.success(`Deleted "${suite.name}"`);
+      await loadSuites();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete suite");
+    }
+  };
+
+  const runSuite = async (suite: TestSuite) => {
+    try {
+      const response = await fetch(`/api/suites/${suite.id}/run`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to run suite');
+      }
+
+      // The home page follows the run live
+      router.push(`/?testId=${encodeURIComponent(data.testId)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run suite");
+    }
+  };
+
+  const allTags = Array.from(new Set(suites.flatMap(suite => suite.tags))).sort();
+  const visibleSuites = tagFilter ? suites.filter(suite => suite.tags.includes(tagFilter)) : suites;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold mb-2">Test Suites</h1>
+          <p className="text-gray-600">Save test steps once and run them whenever you need</p>
+        </div>
+        {!editing && (
+          <Button onClick={() => setEditing("new")}>New Suite</Button>
+        )}
+      </div>
+
+      {editing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {editing === "new" ? "New Suite" : `Edit ${editing.name}`}
+            </CardTitle>
+            {editing !== "new" && (
+              <CardDescription>
+                Currently version {editing.version}. Saving creates version {editing.version + 1}.
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <SuiteEditor
+              key={editing === "new" ? "new" : `${editing.id}@${editing.version}`}
+              suite={editing === "new" ? undefined : editing}
+              onSave={saveSuite}
+              onCancel={() => setEditing(null)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">Filter by tag:</span>
+          <Button
+            variant={tagFilter === null ? "default" : "outline"}
+            size="sm"
+            onClick={() => setTagFilter(null)}
+          >
+            All
+          </Button>
+          {allTags.map(tag => (
+            <Button
+              key={tag}
+              variant={tagFilter === tag ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTagFilter(tag)}
+            >
+              {tag}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="flex flex-col items-center">
+            <div className="w-8 h-8 border-t-2 border-b-2 border-gray-900 rounded-full animate-spin mb-4"></div>
+            <p className="text-gray-600">Loading suites...</p>
+          </div>
+        </div>
+      ) : suites.length === 0 ? (
+        !editing && (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-gray-500 mb-4">You haven&apos;t saved any suites yet</p>
+              <Button onClick={() => setEditing("new")}>Create Your First Suite</Button>
+            </CardContent>
+          </Card>
+        )
+      ) : (
+        <div className="grid grid-cols-1 gap-4">
+          {visibleSuites.map((suite) => (
+            <Card key={suite.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <CardTitle className="text-lg font-medium mb-1">
+                      {suite.name}
+                    </CardTitle>
+                    <CardDescription className="truncate max-w-md">
+                      {suite.baseUrl}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="outline">v{suite.version}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <ol className="list-decimal list-inside text-sm text-muted-foreground space-y-1">
+                  {suite.customSteps.map((step, index) => (
+                    <li key={index} className="truncate">{step}</li>
+                  ))}
+                </ol>
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  {suite.tags.map(tag => (
+                    <Badge key={tag} variant="secondary">{tag}</Badge>
+                  ))}
+                  <span className="text-xs text-muted-foreground">
+                    Updated {formatDate(suite.updatedAt)}
+                  </span>
+                </div>
+              </CardContent>
+              <CardFooter className="flex gap-2">
+                <Button size="sm" onClick={() => runSuite(suite)}>Run</Button>
+                <Button variant="outline" size="sm" onClick={() => setEditing(suite)}>Edit</Button>
+                <Button variant="outline" size="sm" onClick={() => cloneSuite(suite)}>Clone</Button>
+                <Button variant="outline" size="sm" onClick={() => deleteSuite(suite)}>Delete</Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { ConsoleEntry } from "@/lib/types";
+
+interface ConsoleLogProps {
+  entries?: ConsoleEntry[];
+  // Show which page each error happened on, for run-wide logs
+  showPage?: boolean;
+  className?: string;
+}
+
+export default function ConsoleLog({ entries = [], showPage = false, className = "" }: ConsoleLogProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const exceptions = entries.filter(entry => entry.type === "pageerror").length;
+
+  return (
+    <Accordion type="single" collapsible className={`w-full ${className}`}>
+      <AccordionItem value="console" className="border-none">
+        <AccordionTrigger className="py-1 text-sm text-red-600 accordion-trigger">
+          Console errors ({entries.length}{exceptions > 0 && `, ${exceptions} uncaught`})
+        </AccordionTrigger>
+        <AccordionContent>
+          <ul className="space-y-2 text-xs">
+            {entries.map((entry, index) => (
+              <li key={index} className="rounded border p-2 bg-muted/50 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={entry.type === "pageerror" ? "destructive" : "secondary"}>
+                    {entry.type === "pageerror" ? "Uncaught exception" : "console.error"}
+                  </Badge>
+                  {showPage && <span className="text-muted-foreground">{entry.pageId}</span>}
+                  <span className="text-muted-foreground truncate">{entry.location || entry.url}</span>
+                </div>
+                <pre className="whitespace-pre-wrap break-all font-mono">{entry.text}</pre>
+              </li>
+            ))}
+          </ul>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
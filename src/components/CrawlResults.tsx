@@ -0,0 +1,85 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import StatusIndicator from "@/components/StatusIndicator";
+import { CrawlCTACheck, CrawlReport } from "@/lib/types";
+import { formatDuration } from "@/lib/utils";
+
+interface CrawlResultsProps {
+  crawl: CrawlReport;
+  className?: string;
+}
+
+const CTA_OUTCOMES: Record<CrawlCTACheck["outcome"], string> = {
+  "navigated": "Navigated",
+  "new-tab": "Opened a new tab",
+  "page-changed": "Changed the page",
+  "no-effect": "No visible effect",
+  "click-failed": "Could not be clicked"
+};
+
+export default function CrawlResults({ crawl, className = "" }: CrawlResultsProps) {
+  // Broken pages first, in crawl order
+  const pages = [...crawl.pages].sort((a, b) => Number(b.broken) - Number(a.broken));
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div>
+        <h3 className="text-lg font-semibold">Site Crawl</h3>
+        <p className="text-sm text-muted-foreground">
+          {crawl.pagesVisited} pages found via {crawl.source === "sitemap" ? "sitemap.xml" : "links"} •{" "}
+          {crawl.brokenPages === 0 ? "no broken CTAs or forms" : `${crawl.brokenPages} with broken CTAs or forms`}
+        </p>
+      </div>
+
+      {pages.map((page) => (
+        <Card key={page.url} className={page.broken ? "border-red-200" : ""}>
+          <CardHeader className="pb-2">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <CardTitle className="text-sm font-medium truncate">
+                  <a href={page.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                    {page.title || page.url}
+                  </a>
+                </CardTitle>
+                <CardDescription className="truncate">
+                  {page.url} • Depth {page.depth}
+                  {page.httpStatus && ` • HTTP ${page.httpStatus}`} • {formatDuration(page.duration)}
+                </CardDescription>
+              </div>
+              <StatusIndicator status={page.broken ? "failure" : "success"} />
+            </div>
+          </CardHeader>
+          <CardContent className="text-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              {page.cta ? (
+                <>
+                  <Badge variant="outline">CTA: {page.cta.element.text || page.cta.element.tag}</Badge>
+                  <Badge variant={page.broken ? "secondary" : "default"}>{CTA_OUTCOMES[page.cta.outcome]}</Badge>
+                  {page.cta.destination && (
+                    <span className="text-xs text-muted-foreground truncate">→ {page.cta.destination}</span>
+                  )}
+                </>
+              ) : (
+                <Badge variant="outline">No primary CTA found</Badge>
+              )}
+              {page.forms.filter(form => form.fieldCount > 0).length > 0 && (
+                <Badge variant="outline">
+                  {page.forms.filter(form => form.fieldCount > 0).length} form(s)
+                </Badge>
+              )}
+            </div>
+            {page.issues.length > 0 && (
+              <ul className="list-disc list-inside text-red-600 space-y-1">
+                {page.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import StatusIndicator from "@/components/StatusIndicator";
+import { EmailVerificationReport } from "@/lib/types";
+
+interface EmailVerificationResultsProps {
+  emailVerification: EmailVerificationReport;
+  className?: string;
+}
+
+export default function EmailVerificationResults({ emailVerification, className = "" }: EmailVerificationResultsProps) {
+  const { message } = emailVerification;
+
+  return (
+    <Card className={`${emailVerification.success ? "" : "border-red-200"} ${className}`}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="text-lg">Email Verification</CardTitle>
+            <CardDescription className="truncate">
+              {emailVerification.address} • {emailVerification.provider}
+            </CardDescription>
+          </div>
+          <StatusIndicator status={emailVerification.success ? "success" : "failure"} />
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {emailVerification.error && <p className="text-red-600">{emailVerification.error}</p>}
+
+        {message && (
+          <div className="space-y-1">
+            <div className="font-medium">{message.subject || "(no subject)"}</div>
+            <div className="text-xs text-muted-foreground">
+              From {message.from} • {new Date(message.receivedAt).toLocaleString()} • {message.links.length} link(s)
+            </div>
+          </div>
+        )}
+
+        {emailVerification.checks.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {emailVerification.checks.map((check, index) => (
+              <Badge key={index} variant={check.passed ? "success" : "destructive"}>
+                {check.name}: {check.expected}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {emailVerification.followedLink && (
+          <p className="text-xs text-muted-foreground truncate">
+            Opened{" "}
+            <a href={emailVerification.followedLink} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              {emailVerification.followedLink}
+            </a>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
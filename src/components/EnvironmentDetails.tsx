@@ -0,0 +1,83 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { TestEnvironment } from "@/lib/types";
+import { describeAuth } from "@/lib/utils";
+
+interface EnvironmentDetailsProps {
+  environment: TestEnvironment;
+  className?: string;
+}
+
+const USER_AGENT_PRESETS: Record<TestEnvironment["userAgentPreset"], string> = {
+  bot: "RevylBot",
+  browser: "Regular browser",
+  custom: "Custom"
+};
+
+export default function EnvironmentDetails({ environment, className = "" }: EnvironmentDetailsProps) {
+  // Only the names are shown; runs recorded before values were masked may still carry them
+  const headers = Object.keys(environment.extraHeaders || {});
+
+  return (
+    <Accordion type="single" collapsible className={`w-full ${className}`}>
+      <AccordionItem value="environment" className="border-none">
+        <AccordionTrigger className="py-1 text-sm accordion-trigger">
+          <span className="flex items-center gap-2">
+            Browser & identity
+            <Badge variant="outline">{USER_AGENT_PRESETS[environment.userAgentPreset]} user agent</Badge>
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Browser</dt>
+            <dd>{environment.browser}{environment.browserVersion && ` ${environment.browserVersion}`}</dd>
+            <dt className="text-muted-foreground">Device</dt>
+            <dd>
+              {environment.device || "Desktop"} • {environment.viewport.width}x{environment.viewport.height}
+              {environment.isMobile && " • mobile"}
+            </dd>
+            {(environment.locale || environment.timezoneId) && (
+              <>
+                <dt className="text-muted-foreground">Locale</dt>
+                <dd>{[environment.locale, environment.timezoneId].filter(Boolean).join(" • ")}</dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">User agent</dt>
+            <dd className="font-mono break-all">{environment.userAgent}</dd>
+            {headers.length > 0 && (
+              <>
+                <dt className="text-muted-foreground">Extra headers</dt>
+                <dd className="font-mono break-all">
+                  {headers.map(name => <div key={name}>{name}</div>)}
+                </dd>
+              </>
+            )}
+            {environment.geolocation && (
+              <>
+                <dt className="text-muted-foreground">Geolocation</dt>
+                <dd>
+                  {environment.geolocation.latitude}, {environment.geolocation.longitude}
+                  {environment.geolocation.accuracy !== undefined && ` (±${environment.geolocation.accuracy} m)`}
+                </dd>
+              </>
+            )}
+            {environment.permissions && environment.permissions.length > 0 && (
+              <>
+                <dt className="text-muted-foreground">Permissions</dt>
+                <dd>{environment.permissions.join(", ")}</dd>
+              </>
+            )}
+            {environment.auth && (
+              <>
+                <dt className="text-muted-foreground">Authentication</dt>
+                <dd>{describeAuth(environment.auth)}</dd>
+              </>
+            )}
+          </dl>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+}
@@ -3,13 +3,32 @@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { XCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { TestError } from "@/lib/types";
+import { NetworkEntry, TestError } from "@/lib/types";
 
 interface ErrorDisplayProps {
   errors: TestError[];
   className?: string;
 }
 
+/**
+ * The requests that failed or returned an error status during a step
+ */
+export function FailedRequests({ requests }: { requests: NetworkEntry[] }) {
+  return (
+    <ul className="mt-2 space-y-1 text-xs">
+      {requests.map((request, index) => (
+        <li key={index} className="flex items-start gap-2 font-mono">
+          <span className="font-semibold">{request.method}</span>
+          <span className="break-all flex-1">{request.url}</span>
+          <span className="text-red-600 whitespace-nowrap">
+            {request.failure || `${request.status}${request.statusText ? ` ${request.statusText}` : ""}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export default function ErrorDisplay({ errors, className = "" }: ErrorDisplayProps) {
   if (!errors || errors.length === 0) {
     return null;
@@ -37,7 +56,9 @@ export default function ErrorDisplay({ errors, className = "" }: ErrorDisplayPro
             </CardHeader>
             <CardContent className="text-sm">
               <p className="font-semibold">{error.message}</p>
-              {error.details && (
+              {error.failedRequests && error.failedRequests.length > 0 ? (
+                <FailedRequests requests={error.failedRequests} />
+              ) : error.details && (
                 <p className="mt-1 text-gray-600">{error.details}</p>
               )}
             </CardContent>
@@ -46,4 +67,4 @@ export default function ErrorDisplay({ errors, className = "" }: ErrorDisplayPro
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import StatusIndicator from "@/components/StatusIndicator";
+import NetworkLog from "@/components/NetworkLog";
+import { FormFillReport } from "@/lib/types";
+
+interface FormFillResultsProps {
+  formFill: FormFillReport;
+  className?: string;
+}
+
+export default function FormFillResults({ formFill, className = "" }: FormFillResultsProps) {
+  return (
+    <Card className={`${formFill.success ? "" : "border-red-200"} ${className}`}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="text-lg">Auto-filled Form</CardTitle>
+            <CardDescription className="truncate">
+              {formFill.fields.filter(field => field.filled).length} of {formFill.fields.length} fields filled •{" "}
+              {formFill.submitted ? "submitted" : "not submitted"}
+              {formFill.formSelector && ` • ${formFill.formSelector}`}
+            </CardDescription>
+          </div>
+          <StatusIndicator status={formFill.success ? "success" : "failure"} />
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm space-y-3">
+        {formFill.error && <p className="text-red-600">{formFill.error}</p>}
+
+        {formFill.fields.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-xs text-muted-foreground border-b">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Field</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Value</th>
+                  <th className="py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {formFill.fields.map((field, index) => (
+                  <tr key={index} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium">{field.label}</div>
+                      {field.name && <div className="text-xs text-muted-foreground">{field.name}</div>}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div>{field.fieldType}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {field.inputType} • {field.classifiedBy === "llm" ? "classified by LLM" : "heuristic"}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4 break-all">{field.value ?? "—"}</td>
+                    <td className="py-2">
+                      {field.rejected ? (
+                        <Badge variant="destructive">Rejected</Badge>
+                      ) : field.filled ? (
+                        <Badge variant="success">Filled</Badge>
+                      ) : (
+                        <Badge variant="outline">Skipped</Badge>
+                      )}
+                      {field.validationMessage && (
+                        <div className="text-xs text-red-600 mt-1">{field.validationMessage}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {formFill.confirmation && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={formFill.confirmation.isConfirmation ? "success" : "secondary"}>
+              {formFill.confirmation.isConfirmation ? "Confirmation shown" : "No confirmation"}
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              {formFill.confirmation.confidence}% • {formFill.confirmation.reasoning}
+            </span>
+          </div>
+        )}
+
+        <NetworkLog network={formFill.network} />
+      </CardContent>
+    </Card>
+  );
+}
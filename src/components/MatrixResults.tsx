@@ -0,0 +1,116 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import StatusIndicator from "@/components/StatusIndicator";
+import { TestBatchItem, TestEnvironment, TestStatusResponse, TestWebsiteResponse } from "@/lib/types";
+import { formatDuration } from "@/lib/utils";
+
+interface MatrixResultsProps {
+  items: TestBatchItem[];
+  tests: TestStatusResponse[];
+  className?: string;
+}
+
+function describeEnvironment(environment: TestEnvironment): string {
+  const browser = environment.browserVersion ? `${environment.browser} ${environment.browserVersion}` : environment.browser;
+  return `${browser} • ${environment.viewport.width}x${environment.viewport.height}${environment.isMobile ? " mobile" : ""}`;
+}
+
+function getStatus(test?: TestStatusResponse): "success" | "failure" | "running" {
+  if (!test || test.status === "pending" || test.status === "running") return "running";
+  return test.status === "completed" && test.result?.success ? "success" : "failure";
+}
+
+export default function MatrixResults({ items, tests, className = "" }: MatrixResultsProps) {
+  const testsById = new Map(tests.map(test => [test.testId, test]));
+  const columns = items.map(item => {
+    const test = testsById.get(item.testId);
+    return { item, test, result: test?.result as TestWebsiteResponse | undefined };
+  });
+
+  // Every profile runs the same steps, so rows line up by index
+  const instructions = columns.reduce<string[]>((longest, { result }) => {
+    const steps = (result?.customStepsResults || []).map(step => step.instruction);
+    return steps.length > longest.length ? steps : longest;
+  }, []);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Browser Matrix</CardTitle>
+        <CardDescription>
+          The same steps on {items.length} browser profiles, side by side
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left font-medium p-2 w-1/4">Step</th>
+              {columns.map(({ item, test, result }) => (
+                <th key={item.testId} className="text-left font-medium p-2 align-top">
+                  <div className="flex items-center gap-2">
+                    <StatusIndicator status={getStatus(test)} size="sm" />
+                    {item.profile}
+                  </div>
+                  {result?.environment && (
+                    <div className="text-xs font-normal text-muted-foreground">{describeEnvironment(result.environment)}</div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {instructions.map((instruction, index) => (
+              <tr key={index} className="border-b">
+                <td className="p-2 align-top">{index + 1}. {instruction}</td>
+                {columns.map(({ item, result }) => {
+                  const step = result?.customStepsResults?.[index];
+                  return (
+                    <td key={item.testId} className="p-2 align-top">
+                      {step ? (
+                        <div className="space-y-1">
+                          <Badge variant={step.success ? "success" : "destructive"}>
+                            {step.success ? "Passed" : "Failed"}
+                          </Badge>
+                          {step.error && <p className="text-xs text-red-600">{step.error}</p>}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="p-2 font-medium">Result</td>
+              {columns.map(({ item, test, result }) => (
+                <td key={item.testId} className="p-2 align-top space-y-1">
+                  {test?.status === "pending" || test?.status === "running" ? (
+                    <span className="text-muted-foreground">
+                      {test.queuePosition ? `Queued (#${test.queuePosition})` : `Running (${test.progress || 0}%)`}
+                    </span>
+                  ) : (
+                    <div className="space-y-1">
+                      <Badge variant={result?.success ? "success" : "destructive"}>
+                        {result ? (result.success ? "Passed" : "Failed") : test?.status || "Unknown"}
+                      </Badge>
+                      {result && <div className="text-xs text-muted-foreground">{formatDuration(result.totalDuration)}</div>}
+                      {!result && test?.error && <p className="text-xs text-red-600">{test.error}</p>}
+                    </div>
+                  )}
+                  {/* A new tab keeps the matrix open */}
+                  <a href={`/?testId=${item.testId}`} target="_blank" rel="noopener noreferrer" className="block text-xs text-blue-600 hover:underline">
+                    View details
+                  </a>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { NetworkAssertionResult, NetworkEntry } from "@/lib/types";
+import { formatDuration } from "@/lib/utils";
+
+interface NetworkLogProps {
+  network?: NetworkEntry[];
+  assertions?: NetworkAssertionResult[];
+  className?: string;
+}
+
+function getStatusClass(entry: NetworkEntry): string {
+  if (entry.failure || (entry.status !== undefined && entry.status >= 400)) return "text-red-600";
+  if (entry.status === undefined) return "text-muted-foreground";
+  return "text-green-600";
+}
+
+export default function NetworkLog({ network = [], assertions = [], className = "" }: NetworkLogProps) {
+  if (network.length === 0 && assertions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {assertions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {assertions.map((assertion, index) => (
+            <Badge key={index} variant={assertion.passed ? "success" : "destructive"} title={assertion.message}>
+              {assertion.method || "Any"} {assertion.url} → {assertion.status || "2xx"}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {network.length > 0 && (
+        <Accordion type="single" collapsible className="w-full">
+          <AccordionItem value="network" className="border-none">
+            <AccordionTrigger className="py-1 text-sm accordion-trigger">
+              Network ({network.length} request{network.length === 1 ? "" : "s"})
+            </AccordionTrigger>
+            <AccordionContent>
+              <ul className="space-y-1 text-xs font-mono">
+                {network.map((entry, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <span className="font-semibold w-14 shrink-0">{entry.method}</span>
+                    <span className="break-all flex-1" title={entry.postData}>{entry.url}</span>
+                    <span className={`whitespace-nowrap ${getStatusClass(entry)}`}>
+                      {entry.failure || entry.status || "pending"}
+                    </span>
+                    {entry.duration !== undefined && (
+                      <span className="text-muted-foreground whitespace-nowrap">{formatDuration(entry.duration)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      )}
+    </div>
+  );
+}
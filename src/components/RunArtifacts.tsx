@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TestArtifact } from "@/lib/types";
+import { Download, ExternalLink } from "lucide-react";
+
+interface RunArtifactsProps {
+  testId: string;
+  artifacts?: TestArtifact[];
+}
+
+function getArtifactUrl(testId: string, artifact: TestArtifact): string {
+  return `/api/reports/${encodeURIComponent(testId)}/artifacts/${artifact.name}`;
+}
+
+export default function RunArtifacts({ testId, artifacts = [] }: RunArtifactsProps) {
+  // The hosted trace viewer needs an absolute URL, which is only known in the browser
+  const [origin, setOrigin] = useState("");
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  if (artifacts.length === 0) {
+    return null;
+  }
+
+  const trace = artifacts.find(artifact => artifact.type === "trace");
+  const videos = artifacts.filter(artifact => artifact.type === "video");
+
+  return (
+    <Card className="mt-4">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Recordings</CardTitle>
+        <CardDescription>
+          Playwright trace and videos of this run, available once the browser has closed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {trace && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium mr-2">Trace</span>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`${getArtifactUrl(testId, trace)}?download=true`} download>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </a>
+            </Button>
+            {origin && (
+              <Button variant="outline" size="sm" asChild>
+                <a
+                  href={`https://trace.playwright.dev/?trace=${encodeURIComponent(origin + getArtifactUrl(testId, trace))}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open in Trace Viewer
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+
+        {videos.map(video => (
+          <div key={video.name} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Video ({video.pageId})</span>
+              <a href={`${getArtifactUrl(testId, video)}?download=true`} download className="text-sm text-blue-600 hover:underline">
+                Download
+              </a>
+            </div>
+            <video controls preload="metadata" src={getArtifactUrl(testId, video)} className="w-full rounded border" />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
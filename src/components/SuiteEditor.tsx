@@ -0,0 +1,334 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Plus, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { TestSuite, TestSuiteInput } from "@/lib/types";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Please enter a name"),
+  baseUrl: z
+    .string()
+    .url("Please enter a valid URL")
+    .startsWith("http", "URL must start with http:// or https://"),
+  tags: z.string(),
+  headless: z.boolean().default(true),
+  userAgent: z.string().trim().max(500),
+  browserUserAgent: z.boolean().default(false),
+  loginRecipe: z.string().trim().max(100),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface SuiteEditorProps {
+  suite?: TestSuite;
+  onSave: (input: TestSuiteInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function SuiteEditor({ suite, onSave, onCancel }: SuiteEditorProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [customSteps, setCustomSteps] = useState<string[]>(suite?.customSteps || []);
+  const [currentStep, setCurrentStep] = useState<string>("");
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: suite?.name || "",
+      baseUrl: suite?.baseUrl || "",
+      tags: suite?.tags.join(", ") || "",
+      headless: suite?.options?.headless ?? true,
+      userAgent: suite?.options?.identity?.userAgent || "",
+      browserUserAgent: suite?.options?.identity?.userAgentPreset === "browser",
+      loginRecipe: suite?.options?.auth?.loginRecipe || "",
+    },
+  });
+
+  const handleSubmit = async (values: FormValues) => {
+    try {
+      setError(null);
+      setIsSaving(true);
+
+      await onSave({
+        name: values.name,
+        baseUrl: values.baseUrl,
+        customSteps: customSteps.map(step => step.trim()).filter(Boolean),
+        options: {
+          ...suite?.options,
+          headless: values.headless,
+          identity: {
+            ...suite?.options?.identity,
+            userAgentPreset: values.browserUserAgent ? "browser" : "bot",
+            userAgent: values.userAgent || undefined
+          },
+          // A storage state saved through the API is kept unless a login recipe replaces it
+          auth: values.loginRecipe
+            ? { loginRecipe: values.loginRecipe }
+            : suite?.options?.auth?.storageState && { storageState: suite.options.auth.storageState }
+        },
+        tags: values.tags.split(",").map(tag => tag.trim()).filter(Boolean)
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addCustomStep = () => {
+    if (currentStep.trim()) {
+      setCustomSteps([...customSteps, currentStep.trim()]);
+      setCurrentStep("");
+    }
+  };
+
+  const removeCustomStep = (index: number) => {
+    setCustomSteps(customSteps.filter((_, i) => i !== index));
+  };
+
+  const updateCustomStep = (index: number, value: string) => {
+    const updatedSteps = [...customSteps];
+    updatedSteps[index] = value;
+    setCustomSteps(updatedSteps);
+  };
+
+  const moveCustomStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= customSteps.length) return;
+
+    const updatedSteps = [...customSteps];
+    [updatedSteps[index], updatedSteps[target]] = [updatedSteps[target], updatedSteps[index]];
+    setCustomSteps(updatedSteps);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Book a demo" {...field} disabled={isSaving} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="baseUrl"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Base URL</FormLabel>
+              <FormControl>
+                <Input placeholder="https://example.com" {...field} disabled={isSaving} />
+              </FormControl>
+              <FormDescription>
+                The page every run of this suite starts on
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <Input placeholder="smoke, signup" {...field} disabled={isSaving} />
+              </FormControl>
+              <FormDescription>
+                Comma-separated
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="headless"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Headless Mode</FormLabel>
+                <FormDescription>
+                  Turn off to watch the browser actions in real-time
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={isSaving}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="browserUserAgent"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <FormLabel>Browser User Agent</FormLabel>
+                <FormDescription>
+                  Identify as a regular browser instead of RevylBot
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                  disabled={isSaving}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="userAgent"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Custom User Agent</FormLabel>
+              <FormControl>
+                <Input placeholder="Mozilla/5.0 (...)" {...field} disabled={isSaving} />
+              </FormControl>
+              <FormDescription>
+                Optional; sent instead of the user agent chosen above
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="loginRecipe"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Login Recipe</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. acme-trial" {...field} disabled={isSaving} />
+              </FormControl>
+              <FormDescription>
+                Optional; runs start logged in with the session of this saved recipe
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-4">
+          <FormLabel>Test Steps</FormLabel>
+
+          {customSteps.length > 0 && (
+            <Card>
+              <CardContent className="p-4">
+                <ul className="space-y-2">
+                  {customSteps.map((step, index) => (
+                    <li key={index} className="flex items-center gap-2">
+                      <span className="font-medium">{index + 1}.</span>
+                      <Input
+                        value={step}
+                        onChange={(e) => updateCustomStep(index, e.target.value)}
+                        disabled={isSaving}
+                        className="flex-1"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveCustomStep(index, -1)}
+                        disabled={isSaving || index === 0}
+                        aria-label="Move step up"
+                      >
+                        ↑
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveCustomStep(index, 1)}
+                        disabled={isSaving || index === customSteps.length - 1}
+                        aria-label="Move step down"
+                      >
+                        ↓
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeCustomStep(index)}
+                        disabled={isSaving}
+                        aria-label="Remove step"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Enter a new test step..."
+              value={currentStep}
+              onChange={(e) => setCurrentStep(e.target.value)}
+              disabled={isSaving}
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              onClick={addCustomStep}
+              disabled={isSaving || !currentStep.trim()}
+              size="sm"
+              className="flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" /> Add
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? "Saving..." : suite ? "Save New Version" : "Create Suite"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
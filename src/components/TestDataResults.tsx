@@ -0,0 +1,38 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TestDataRecord } from "@/lib/types";
+
+interface TestDataResultsProps {
+  testData: TestDataRecord;
+  className?: string;
+}
+
+export default function TestDataResults({ testData, className = "" }: TestDataResultsProps) {
+  const values = Object.entries(testData.values);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Test Data</CardTitle>
+        <CardDescription>
+          {testData.profile ? `Profile ${testData.profile}` : "Default profile"} • {testData.locale} • Seed {testData.seed}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {values.length > 0 ? (
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+            {values.map(([field, value]) => (
+              <div key={field} className="contents">
+                <dt className="text-muted-foreground">{field}</dt>
+                <dd className="break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-muted-foreground">No generated values were entered</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,8 +10,17 @@ import { Button } from "@/components/ui/button";
 import { formatDuration } from "@/lib/utils";
 import StatusIndicator from "@/components/StatusIndicator";
 import Screenshots from "@/components/Screenshots";
-import { TestWebsiteResponse, TestError, TestStep } from "@/lib/types";
-import { CheckCircle, FileDown, AlertTriangle, CircleCheck, CheckCheck } from "lucide-react";
+import CrawlResults from "@/components/CrawlResults";
+import FormFillResults from "@/components/FormFillResults";
+import TestDataResults from "@/components/TestDataResults";
+import EmailVerificationResults from "@/components/EmailVerificationResults";
+import NetworkLog from "@/components/NetworkLog";
+import ConsoleLog from "@/components/ConsoleLog";
+import RunArtifacts from "@/components/RunArtifacts";
+import EnvironmentDetails from "@/components/EnvironmentDetails";
+import { FailedRequests } from "@/components/ErrorDisplay";
+import { TestWebsiteResponse, TestError, TestStep, TestDecisionEvent } from "@/lib/types";
+import { CheckCircle, FileDown, FileCode, AlertTriangle, CircleCheck, CheckCheck } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { generateTestResultsPDF, getValidImageUrl, isValidScreenshot, TestStatistics } from "@/lib/pdfUtils";
 import { LoggerPanel } from "@/components/LoggerPanel";
@@ -20,6 +29,8 @@ import { Progress } from "@radix-ui/react-progress";
 
 interface TestResultsProps {
   results: TestWebsiteResponse;
+  isRunning?: boolean; // Results are partial and still streaming in
+  liveDecisions?: TestDecisionEvent[];
 }
 
 // New TestSummary Component
@@ -102,13 +113,17 @@ function TestSummary({ statistics }: { statistics: TestStatistics }) {
   );
 }
 
-export default function TestResults({ results }: TestResultsProps) {
+export default function TestResults({ results, isRunning = false, liveDecisions = [] }: TestResultsProps) {
   // Check if there are any completed custom steps
   const hasCustomSteps = results.customStepsResults && results.customStepsResults.length > 0;
   const reportRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const { enabled: loggingEnabled } = useLoggerStore();
   
+  // Decisions the LLM has made so far for the step that is currently executing
+  const currentStepIndex = results.customStepsResults?.length || 0;
+  const currentStepDecisions = liveDecisions.filter(event => event.stepIndex === currentStepIndex);
+  
   // Store the initial screenshot to use for before comparisons on the first step
   const initialScreenshot = results.steps.length > 0 ? results.steps[0].screenshot : undefined;
   
@@ -224,7 +239,8 @@ export default function TestResults({ results }: TestResultsProps) {
   
   // Log test results and detailed LLM/Vision data when the component mounts
   useEffect(() => {
-    if (loggingEnabled) {
+    // Partial results are logged once the run has finished
+    if (loggingEnabled && !isRunning) {
       const cleanupLogging = initializeTestLogging(results.testId, results.url);
       
       testLogger.info(`Test results loaded: ${results.success ? 'SUCCESS' : 'FAILURE'}`, {
@@ -299,7 +315,7 @@ export default function TestResults({ results }: TestResultsProps) {
         if (cleanupLogging) cleanupLogging();
       };
     }
-  }, [results, loggingEnabled, hasCustomSteps]);
+  }, [results, loggingEnabled, hasCustomSteps, isRunning]);
 
   // Function to handle PDF export
   const exportAsPDF = async () => {
@@ -354,11 +370,25 @@ export default function TestResults({ results }: TestResultsProps) {
             variant="outline" 
             className="flex items-center gap-1" 
             onClick={exportAsPDF}
+            disabled={isRunning}
           >
             <FileDown className="h-4 w-4" />
             Export as PDF
           </Button>
-          {isTestSuccessful ? (
+          {!isRunning && (
+            <Button variant="outline" className="flex items-center gap-1" asChild>
+              <a href={`/api/reports/${results.testId}?format=playwright`} download>
+                <FileCode className="h-4 w-4" />
+                Download Playwright Test
+              </a>
+            </Button>
+          )}
+          {isRunning ? (
+            <StatusIndicator 
+              status="running" 
+              label="Running" 
+            />
+          ) : isTestSuccessful ? (
             <Badge variant="outline" className="bg-success/20 text-success border-success/30 hover:bg-success/30">
               <CheckCircle className="h-3.5 w-3.5 mr-1" />
               Passed
@@ -374,7 +404,11 @@ export default function TestResults({ results }: TestResultsProps) {
       
       <div className="text-sm text-muted-foreground">
         URL: {results.url} • Test ID: {results.testId} • Duration: {formatDuration(results.totalDuration)}
+        {results.tokenUsage && ` • LLM Tokens: ${results.tokenUsage.totalTokens.toLocaleString()}`}
+        {results.replayScriptId && ` • Replay of script ${results.replayScriptId}`}
+        {results.environment && ` • ${results.environment.device || results.environment.browser} ${results.environment.viewport.width}x${results.environment.viewport.height}`}
       </div>
+      {results.environment && <EnvironmentDetails environment={results.environment} />}
       
       <div ref={reportRef} className="space-y-6">
         <TestSummary statistics={statistics} />
@@ -421,6 +455,14 @@ export default function TestResults({ results }: TestResultsProps) {
           </Card>
         </div>
         
+        {results.crawl && <CrawlResults crawl={results.crawl} />}
+        
+        {results.formFill && <FormFillResults formFill={results.formFill} />}
+        
+        {results.emailVerification && <EmailVerificationResults emailVerification={results.emailVerification} />}
+        
+        {results.testData && <TestDataResults testData={results.testData} />}
+        
         <Tabs defaultValue="steps">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="steps">Test Steps</TabsTrigger>
@@ -444,6 +486,15 @@ export default function TestResults({ results }: TestResultsProps) {
                             status={step.success ? "success" : "failure"} 
                           />
                         </div>
+                        {step.actionCount !== undefined && (
+                          <CardDescription>
+                            {step.actionCount} action{step.actionCount === 1 ? "" : "s"}
+                            {step.duration !== undefined && ` • ${formatDuration(step.duration)}`}
+                            {step.tokenUsage && ` • ${step.tokenUsage.totalTokens.toLocaleString()} tokens`}
+                            {step.replay === "replayed" && " • replayed from script"}
+                            {step.replay === "healed" && " • self-healed by LLM"}
+                          </CardDescription>
+                        )}
                       </CardHeader>
                       <CardContent className="py-3">
                         <Accordion type="single" collapsible className="w-full">
@@ -601,6 +652,9 @@ export default function TestResults({ results }: TestResultsProps) {
                             </AlertDescription>
                           </Alert>
                         )}
+                        
+                        <NetworkLog network={step.network} assertions={step.networkAssertions} className="mt-3" />
+                        <ConsoleLog entries={step.console} className="mt-1" />
                       </CardContent>
                       {isValidScreenshot(step.screenshot) && (
                         <CardFooter className="p-0 border-t">
@@ -721,6 +775,47 @@ export default function TestResults({ results }: TestResultsProps) {
               </div>
             )}
             
+            {isRunning && currentStepDecisions.length > 0 && (
+              <Card className="border border-dashed">
+                <CardHeader className="pb-2 bg-muted/50">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="mr-1">{currentStepIndex + 1}</Badge>
+                      <CardTitle className="text-base">{currentStepDecisions[0].instruction}</CardTitle>
+                    </div>
+                    <StatusIndicator status="running" />
+                  </div>
+                  <CardDescription>
+                    {currentStepDecisions.length} action{currentStepDecisions.length === 1 ? "" : "s"} decided so far
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="py-3">
+                  <ol className="space-y-2 text-sm">
+                    {currentStepDecisions.map((event, index) => (
+                      <li key={index} className="rounded-md border p-2 bg-muted/50">
+                        <div className="font-medium text-foreground">
+                          {index + 1}. {event.decision.action}
+                          {event.decision.targetElement?.text && ` "${event.decision.targetElement.text}"`}
+                          {event.decision.value && ` → ${event.decision.value}`}
+                          <span className="text-muted-foreground font-normal"> ({event.decision.confidence}% confidence)</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground whitespace-pre-wrap">{event.decision.reasoning}</div>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
+            
+            {!isRunning && <RunArtifacts testId={results.testId} artifacts={results.artifacts} />}
+            
+            {results.console && results.console.length > 0 && (
+              <div className="mt-4">
+                <h3 className="text-lg font-semibold mb-2">Browser Console</h3>
+                <ConsoleLog entries={results.console} showPage />
+              </div>
+            )}
+            
             {results.errors.length > 0 && (
               <div className="mt-4">
                 <h3 className="text-lg font-semibold text-destructive mb-2">Errors</h3>
@@ -731,9 +826,13 @@ export default function TestResults({ results }: TestResultsProps) {
                         {error.message}
                       </AccordionTrigger>
                       <AccordionContent>
-                        <pre className="text-xs whitespace-pre-wrap bg-gray-100 p-2 rounded">
-                          {error.details}
-                        </pre>
+                        {error.failedRequests && error.failedRequests.length > 0 ? (
+                          <FailedRequests requests={error.failedRequests} />
+                        ) : (
+                          <pre className="text-xs whitespace-pre-wrap bg-gray-100 p-2 rounded">
+                            {error.details}
+                          </pre>
+                        )}
                       </AccordionContent>
                     </AccordionItem>
                   ))}
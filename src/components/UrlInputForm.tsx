@@ -22,13 +22,21 @@ const formSchema = z.object({
     .startsWith("http", "URL must start with http:// or https://"),
   customSteps: z.array(z.string()).optional(),
   headless: z.boolean().default(true),
+  failOnConsoleErrors: z.boolean().default(false),
+  recordTrace: z.boolean().default(false),
+  recordVideo: z.boolean().default(false),
+  browserUserAgent: z.boolean().default(false),
   detailedLogging: z.boolean().default(false),
+  crawl: z.boolean().default(false),
+  autoFillForm: z.boolean().default(false),
+  verifyEmail: z.boolean().default(false),
+  browserMatrix: z.boolean().default(false),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
 interface UrlInputFormProps {
-  onSubmit: (url: string, customSteps?: string[], options?: { headless?: boolean, detailedLogging?: boolean }) => Promise<void>;
+  onSubmit: (url: string, customSteps?: string[], options?: { headless?: boolean, failOnConsoleErrors?: boolean, recordTrace?: boolean, recordVideo?: boolean, browserUserAgent?: boolean, detailedLogging?: boolean, crawl?: boolean, autoFillForm?: boolean, verifyEmail?: boolean, browserMatrix?: boolean }) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -58,7 +66,15 @@ export default function UrlInputForm({ onSubmit, isLoading = false }: UrlInputFo
       url: "",
       customSteps: [],
       headless: true,
+      failOnConsoleErrors: false,
+      recordTrace: false,
+      recordVideo: false,
+      browserUserAgent: false,
       detailedLogging: loggerEnabled,
+      crawl: false,
+      autoFillForm: false,
+      verifyEmail: false,
+      browserMatrix: false,
     },
   });
 
@@ -92,7 +108,15 @@ export default function UrlInputForm({ onSubmit, isLoading = false }: UrlInputFo
         customSteps.length > 0 ? customSteps : undefined, 
         { 
           headless: values.headless,
-          detailedLogging: values.detailedLogging
+          failOnConsoleErrors: values.failOnConsoleErrors,
+          recordTrace: values.recordTrace,
+          recordVideo: values.recordVideo,
+          browserUserAgent: values.browserUserAgent,
+          detailedLogging: values.detailedLogging,
+          crawl: values.crawl,
+          autoFillForm: values.autoFillForm,
+          verifyEmail: values.verifyEmail,
+          browserMatrix: values.browserMatrix
         }
       );
     } catch (err) {
@@ -190,6 +214,94 @@ export default function UrlInputForm({ onSubmit, isLoading = false }: UrlInputFo
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="failOnConsoleErrors"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Fail on Console Errors</FormLabel>
+                  <FormDescription>
+                    Fail a step when the page logs an error or throws an uncaught exception during it
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading}
+                  />
+
+          <FormField
+            control={form.control}
+            name="recordTrace"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Record Trace</FormLabel>
+                  <FormDescription>
+                    Save a Playwright trace of the run for step-by-step debugging
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="recordVideo"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Record Video</FormLabel>
+                  <FormDescription>
+                    Save a video of every browser tab
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading}
+                  />
+
+          <FormField
+            control={form.control}
+            name="browserUserAgent"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Browser User Agent</FormLabel>
+                  <FormDescription>
+                    Identify as a regular browser instead of RevylBot, for sites that block or special-case bots
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="detailedLogging"
@@ -212,6 +324,94 @@ export default function UrlInputForm({ onSubmit, isLoading = false }: UrlInputFo
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="crawl"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Crawl Site</FormLabel>
+                  <FormDescription>
+                    Test the primary CTA and forms of every page instead of the steps below
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="autoFillForm"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Auto-fill Form</FormLabel>
+                  <FormDescription>
+                    After the steps, fill the lead form with generated data, submit it and check for a confirmation
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading || form.watch("crawl")}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="verifyEmail"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Verify Email</FormLabel>
+                  <FormDescription>
+                    Fill forms with a test inbox address and wait for the confirmation email to arrive
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading || form.watch("crawl")}
+                  />
+
+          <FormField
+            control={form.control}
+            name="browserMatrix"
+            render={({ field }) => (
+              <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Browser Matrix</FormLabel>
+                  <FormDescription>
+                    Run the steps on desktop Chrome and Firefox, iPhone (Safari) and Android (Chrome), side by side
+                  </FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
           <Accordion type="single" collapsible className="w-full">
             <AccordionItem value="custom-steps">
               <AccordionTrigger>Test Steps</AccordionTrigger>
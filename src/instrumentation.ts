@@ -0,0 +1,13 @@
+/**
+ * Runs once when the Next.js server starts
+ * Starts the test scheduler unless SCHEDULER_ENABLED=false
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+
+  // Imported lazily so the edge runtime never loads Playwright
+  const { TestScheduler } = await import('./lib/scheduler/TestScheduler');
+  TestScheduler.getInstance().start();
+}
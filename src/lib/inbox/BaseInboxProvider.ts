@@ -0,0 +1,47 @@
+/**
+ * Base Inbox Provider
+ * Abstract class that defines how tests receive the emails a website sends
+ */
+
+import { InboxMessage } from "../types";
+
+export interface WaitForMessageOptions {
+  // Ignore messages received before this time
+  since: Date;
+  // Milliseconds to wait before giving up
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+export abstract class BaseInboxProvider {
+  /**
+   * Name of the provider, as used in INBOX_PROVIDER
+   */
+  abstract readonly name: string;
+
+  /**
+   * The mailbox whose plus-addresses are delivered to this inbox, e.g. "qa@inbox.example.com"
+   * Every test run plus-addresses it, so each run has a unique address
+   */
+  abstract getEmailBase(): string;
+
+  /**
+   * Start receiving messages
+   * Remote inboxes are always receiving, so this does nothing by default
+   */
+  async start(): Promise<void> {}
+
+  /**
+   * Wait for the first message sent to an address
+   * @returns The message, or null if none arrived before the timeout or the signal aborted
+   */
+  abstract waitForMessage(address: string, options: WaitForMessageOptions): Promise<InboxMessage | null>;
+}
+
+/**
+ * Whether a recipient, e.g. "Jane <qa+t1@example.com>", is the given address
+ */
+export function isRecipient(recipient: string, address: string): boolean {
+  const email = recipient.match(/<([^>]+)>/)?.[1] || recipient;
+  return email.trim().toLowerCase() === address.toLowerCase();
+}
@@ -0,0 +1,80 @@
+/**
+ * Inbox Provider Registry
+ * Maps provider names to factories so the inbox used to verify emails can be
+ * chosen through configuration instead of code changes
+ */
+
+import { BaseInboxProvider } from "./BaseInboxProvider";
+import { SmtpSinkInboxProvider } from "./SmtpSinkInboxProvider";
+import { MailpitInboxProvider } from "./MailpitInboxProvider";
+
+export interface InboxProviderConfig {
+  provider: string;
+  emailBase?: string;
+  smtpHost: string;
+  smtpPort: number;
+  apiUrl?: string;
+}
+
+/**
+ * Creates a provider for the given configuration, or returns null if the
+ * configuration is incomplete
+ */
+export type InboxProviderFactory = (config: InboxProviderConfig) => BaseInboxProvider | null;
+
+const providers: Map<string, InboxProviderFactory> = new Map();
+
+/**
+ * Register (or replace) an inbox provider factory
+ * @param name The name used in INBOX_PROVIDER
+ * @param factory The factory creating the provider
+ */
+export function registerInboxProvider(name: string, factory: InboxProviderFactory): void {
+  providers.set(name.toLowerCase(), factory);
+}
+
+/**
+ * List the names of all registered providers
+ */
+export function getInboxProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Read the inbox provider configuration from the environment
+ * Defaults to the local SMTP sink
+ */
+export function getInboxProviderConfig(): InboxProviderConfig {
+  return {
+    provider: (process.env.INBOX_PROVIDER || 'smtp-sink').toLowerCase(),
+    emailBase: process.env.INBOX_EMAIL_BASE,
+    smtpHost: process.env.INBOX_SMTP_HOST || '127.0.0.1',
+    smtpPort: Number(process.env.INBOX_SMTP_PORT) || 2525,
+    apiUrl: process.env.INBOX_API_URL
+  };
+}
+
+/**
+ * Create the inbox provider for a configuration
+ * @param config The provider configuration, read from the environment if omitted
+ * @returns The provider, or null if the provider is not configured
+ */
+export function createInboxProvider(config: InboxProviderConfig = getInboxProviderConfig()): BaseInboxProvider | null {
+  const factory = providers.get(config.provider.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown inbox provider "${config.provider}". Available providers: ${getInboxProviderNames().join(', ')}`);
+  }
+
+  return factory(config);
+}
+
+registerInboxProvider('smtp-sink', (config) => new SmtpSinkInboxProvider({
+  host: config.smtpHost,
+  port: config.smtpPort,
+  emailBase: config.emailBase || 'inbox@localhost'
+}));
+
+registerInboxProvider('mailpit', (config) => {
+  if (!config.apiUrl || !config.emailBase) return null;
+  return new MailpitInboxProvider({ apiUrl: config.apiUrl, emailBase: config.emailBase });
+});
@@ -0,0 +1,104 @@
+/**
+ * Mailpit Inbox Provider
+ * Reads messages from a Mailpit (or compatible) server through its REST API
+ */
+
+import { InboxMessage } from '../types';
+import { BaseInboxProvider, isRecipient, WaitForMessageOptions } from './BaseInboxProvider';
+import { extractLinks, htmlToText } from './emailContent';
+
+const POLL_INTERVAL = 2000;
+
+export interface MailpitConfig {
+  apiUrl: string;
+  emailBase: string;
+}
+
+interface MailpitAddress {
+  Name: string;
+  Address: string;
+}
+
+interface MailpitSummary {
+  ID: string;
+  To: MailpitAddress[];
+  Created: string;
+}
+
+interface MailpitMessage {
+  ID: string;
+  From: MailpitAddress;
+  To: MailpitAddress[];
+  Subject: string;
+  Date: string;
+  Text: string;
+  HTML: string;
+}
+
+export class MailpitInboxProvider extends BaseInboxProvider {
+  readonly name = 'mailpit';
+  private config: MailpitConfig;
+
+  constructor(config: MailpitConfig) {
+    super();
+    this.config = { ...config, apiUrl: config.apiUrl.replace(/\/$/, '') };
+  }
+
+  getEmailBase(): string {
+    return this.config.emailBase;
+  }
+
+  async waitForMessage(address: string, options: WaitForMessageOptions): Promise<InboxMessage | null> {
+    const deadline = Date.now() + options.timeout;
+
+    while (!options.signal?.aborted) {
+      const summary = await this.findMessage(address, options.since);
+      if (summary) {
+        return this.getMessage(summary.ID);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+      await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL, remaining)));
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the oldest message to an address received since the given time
+   */
+  private async findMessage(address: string, since: Date): Promise<MailpitSummary | null> {
+    const query = encodeURIComponent(`to:"${address}"`);
+    const response = await fetch(`${this.config.apiUrl}/api/v1/search?query=${query}&limit=50`);
+    if (!response.ok) {
+      throw new Error(`Mailpit search failed with HTTP ${response.status}`);
+    }
+
+    const { messages } = await response.json() as { messages: MailpitSummary[] };
+    return messages
+      .filter(message => new Date(message.Created) >= since && message.To.some(to => isRecipient(to.Address, address)))
+      .sort((a, b) => new Date(a.Created).getTime() - new Date(b.Created).getTime())[0] || null;
+  }
+
+  private async getMessage(id: string): Promise<InboxMessage> {
+    const response = await fetch(`${this.config.apiUrl}/api/v1/message/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+      throw new Error(`Mailpit message ${id} could not be read (HTTP ${response.status})`);
+    }
+
+    const message = await response.json() as MailpitMessage;
+    const text = message.Text || (message.HTML ? htmlToText(message.HTML) : '');
+
+    return {
+      id: message.ID,
+      from: message.From?.Address || '',
+      to: message.To.map(to => to.Address),
+      subject: message.Subject,
+      text,
+      html: message.HTML || undefined,
+      receivedAt: message.Date,
+      links: extractLinks(text, message.HTML || undefined)
+    };
+  }
+}
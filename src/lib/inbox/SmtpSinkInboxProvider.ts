@@ -0,0 +1,217 @@
+/**
+ * SMTP Sink Inbox Provider
+ * A minimal SMTP server that accepts every message and keeps it in memory,
+ * for websites whose outgoing mail can be pointed at the test runner
+ */
+
+import net from 'net';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { InboxMessage } from '../types';
+import { BaseInboxProvider, isRecipient, WaitForMessageOptions } from './BaseInboxProvider';
+import { extractLinks, parseEmail } from './emailContent';
+
+// Older messages are dropped once this many have been received
+const MAX_MESSAGES = 200;
+const MAX_MESSAGE_SIZE = 10 * 1024 * 1024;
+
+export interface SmtpSinkConfig {
+  host: string;
+  port: number;
+  emailBase: string;
+}
+
+// One server per process, shared by every test run
+let server: net.Server | null = null;
+let listening: Promise<void> | null = null;
+const messages: InboxMessage[] = [];
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+/**
+ * Store a received message and notify waiting tests
+ */
+function receive(raw: string, recipients: string[]): void {
+  const email = parseEmail(raw);
+  const message: InboxMessage = {
+    id: crypto.randomUUID(),
+    from: email.from,
+    // The envelope recipients include Bcc and are never display names
+    to: recipients.length > 0 ? recipients : email.to,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    receivedAt: new Date().toISOString(),
+    links: extractLinks(email.text, email.html)
+  };
+
+  messages.push(message);
+  if (messages.length > MAX_MESSAGES) {
+    messages.splice(0, messages.length - MAX_MESSAGES);
+  }
+  events.emit('message', message);
+}
+
+/**
+ * Handle one SMTP connection
+ * Only what a mail transfer agent needs to deliver a message is supported
+ */
+function handleConnection(socket: net.Socket): void {
+  let buffer = '';
+  let inData = false;
+  let recipients: string[] = [];
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const handleCommand = (line: string) => {
+    const command = line.slice(0, 4).toUpperCase();
+
+    switch (command) {
+      case 'EHLO':
+        reply('250-revyl-smtp-sink');
+        reply(`250-SIZE ${MAX_MESSAGE_SIZE}`);
+        reply('250 8BITMIME');
+        break;
+      case 'HELO':
+        reply('250 revyl-smtp-sink');
+        break;
+      case 'MAIL':
+        recipients = [];
+        reply('250 OK');
+        break;
+      case 'RCPT': {
+        const address = line.match(/<([^>]*)>/)?.[1] || line.slice(line.indexOf(':') + 1).trim();
+        recipients.push(address);
+        reply('250 OK');
+        break;
+      }
+      case 'DATA':
+        if (recipients.length === 0) {
+          reply('503 RCPT first');
+          break;
+        }
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        break;
+      case 'RSET':
+        recipients = [];
+        reply('250 OK');
+        break;
+      case 'NOOP':
+        reply('250 OK');
+        break;
+      case 'QUIT':
+        reply('221 Bye');
+        socket.end();
+        break;
+      default:
+        reply('502 Command not implemented');
+    }
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('error', () => socket.destroy());
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.startsWith('.\r\n') ? 0 : buffer.indexOf('\r\n.\r\n');
+        if (end === -1) {
+          if (buffer.length > MAX_MESSAGE_SIZE) {
+            reply('552 Message too large');
+            socket.end();
+          }
+          return;
+        }
+
+        // Undo dot-stuffing
+        const raw = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end === 0 ? 3 : end + 5);
+        inData = false;
+
+        try {
+          receive(raw, recipients);
+          reply('250 OK: queued');
+        } catch (error) {
+          console.error('SMTP sink failed to parse a message:', error);
+          reply('451 Failed to process message');
+        }
+        recipients = [];
+        continue;
+      }
+
+      const lineEnd = buffer.indexOf('\n');
+      if (lineEnd === -1) return;
+      const line = buffer.slice(0, lineEnd).replace(/\r$/, '');
+      buffer = buffer.slice(lineEnd + 1);
+      handleCommand(line);
+    }
+  });
+
+  reply('220 revyl-smtp-sink ESMTP');
+}
+
+export class SmtpSinkInboxProvider extends BaseInboxProvider {
+  readonly name = 'smtp-sink';
+  private config: SmtpSinkConfig;
+
+  constructor(config: SmtpSinkConfig) {
+    super();
+    this.config = config;
+  }
+
+  getEmailBase(): string {
+    return this.config.emailBase;
+  }
+
+  /**
+   * Start the shared SMTP server if it is not running yet
+   */
+  async start(): Promise<void> {
+    if (!listening) {
+      server = net.createServer(handleConnection);
+      listening = new Promise<void>((resolve, reject) => {
+        server!.once('error', reject);
+        server!.listen(this.config.port, this.config.host, () => {
+          server!.off('error', reject);
+          server!.unref();
+          console.log(`SMTP sink listening on ${this.config.host}:${this.config.port}`);
+          resolve();
+        });
+      }).catch(error => {
+        server = null;
+        listening = null;
+        throw error;
+      });
+    }
+
+    return listening;
+  }
+
+  async waitForMessage(address: string, options: WaitForMessageOptions): Promise<InboxMessage | null> {
+    const matches = (message: InboxMessage) =>
+      new Date(message.receivedAt) >= options.since && message.to.some(recipient => isRecipient(recipient, address));
+
+    const received = messages.find(matches);
+    if (received) return received;
+    if (options.signal?.aborted) return null;
+
+    return new Promise(resolve => {
+      const finish = (message: InboxMessage | null) => {
+        clearTimeout(timer);
+        events.off('message', onMessage);
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(message);
+      };
+      const onMessage = (message: InboxMessage) => {
+        if (matches(message)) finish(message);
+      };
+      const onAbort = () => finish(null);
+      const timer = setTimeout(() => finish(null), options.timeout);
+
+      events.on('message', onMessage);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
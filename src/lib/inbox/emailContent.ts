@@ -0,0 +1,168 @@
+import { EmailLink } from '../types';
+
+/**
+ * The parts of a raw RFC 5322 message the inbox providers need
+ */
+export interface ParsedEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Split a message or MIME part into its headers (lowercased names) and body
+ */
+function splitHeaders(raw: string): { headers: Map<string, string>; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+
+  const headers = new Map<string, string>();
+  // Folded header lines continue with whitespace
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(separator + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Read a parameter such as the boundary or charset of a Content-Type header
+ */
+function getHeaderParam(header: string, param: string): string | undefined {
+  return header.match(new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, 'i'))?.[1];
+}
+
+function toBufferEncoding(charset?: string): BufferEncoding {
+  return charset && /^(iso-8859-1|latin1|us-ascii|windows-1252)$/i.test(charset) ? 'latin1' : 'utf8';
+}
+
+/**
+ * Decode the base64 or quoted-printable body of a part
+ */
+function decodeBody(body: string, transferEncoding: string | undefined, charset?: string): string {
+  const encoding = transferEncoding?.toLowerCase();
+
+  if (encoding === 'base64') {
+    return Buffer.from(body.replace(/\s/g, ''), 'base64').toString(toBufferEncoding(charset));
+  }
+  if (encoding === 'quoted-printable') {
+    const bytes = body
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return Buffer.from(bytes, 'latin1').toString(toBufferEncoding(charset));
+  }
+  return body;
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. "=?UTF-8?B?...?="
+ */
+export function decodeHeader(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+      encoding.toUpperCase() === 'B'
+        ? decodeBody(text, 'base64', charset)
+        : decodeBody(text.replace(/_/g, ' '), 'quoted-printable', charset)
+    );
+}
+
+/**
+ * Collect the first text and HTML bodies of a part and its children
+ */
+function collectBodies(raw: string, result: { text?: string; html?: string }): void {
+  const { headers, body } = splitHeaders(raw);
+  const contentType = headers.get('content-type') || 'text/plain';
+  const boundary = getHeaderParam(contentType, 'boundary');
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body.split(`--${boundary}`);
+    // Skip the preamble and everything after the closing delimiter
+    for (const part of parts.slice(1)) {
+      if (part.startsWith('--')) break;
+      collectBodies(part.replace(/^\r?\n/, ''), result);
+    }
+    return;
+  }
+
+  if (/attachment/i.test(headers.get('content-disposition') || '')) return;
+
+  const decoded = decodeBody(body, headers.get('content-transfer-encoding'), getHeaderParam(contentType, 'charset'));
+  if (/^text\/html/i.test(contentType)) {
+    result.html ??= decoded;
+  } else if (/^text\/plain/i.test(contentType)) {
+    result.text ??= decoded;
+  }
+}
+
+/**
+ * Parse a raw message as received over SMTP
+ */
+export function parseEmail(raw: string): ParsedEmail {
+  const { headers } = splitHeaders(raw);
+  const bodies: { text?: string; html?: string } = {};
+  collectBodies(raw, bodies);
+
+  return {
+    from: decodeHeader(headers.get('from') || ''),
+    to: (headers.get('to') || '').split(',').map(address => address.trim()).filter(Boolean),
+    subject: decodeHeader(headers.get('subject') || ''),
+    text: bodies.text ?? (bodies.html ? htmlToText(bodies.html) : ''),
+    html: bodies.html
+  };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reduce an HTML body to its visible text
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/(p|div|tr|li|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim();
+}
+
+/**
+ * Extract the links of an email, with their anchor text when the email has an HTML body
+ */
+export function extractLinks(text: string, html?: string): EmailLink[] {
+  const links = new Map<string, EmailLink>();
+
+  if (html) {
+    for (const match of html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+      const url = decodeEntities(match[1]);
+      if (/^https?:\/\//i.test(url) && !links.has(url)) {
+        links.set(url, { url, text: htmlToText(match[2]) || undefined });
+      }
+    }
+  }
+
+  for (const match of text.matchAll(/https?:\/\/[^\s<>"')\]]+/g)) {
+    if (!links.has(match[0])) {
+      links.set(match[0], { url: match[0] });
+    }
+  }
+
+  return Array.from(links.values());
+}
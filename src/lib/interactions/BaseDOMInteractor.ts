@@ -58,6 +58,12 @@ export abstract class BaseDOMInteractor {
    */
   abstract getValue(element: InteractableElement): Promise<string>;
   
+  /**
+   * Get the validation state of a form field
+   * @returns null if the element does not exist
+   */
+  abstract getValidationState(element: InteractableElement): Promise<ValidationState | null>;
+  
   /**
    * Check if element exists
    */
@@ -129,6 +135,15 @@ export interface ElementRect {
   height: number;
 }
 
+/**
+ * Validation state of a form field
+ */
+export interface ValidationState {
+  valid: boolean;
+  // The browser's validation message, or the error text the field is described by
+  message: string;
+}
+
 /**
  * Options for navigation
  */
@@ -1,18 +1,32 @@
 import { Page, ElementHandle } from 'playwright';
-import { BaseDOMInteractor, InteractableElement, NavigationOptions, WaitOptions, ElementRect } from './BaseDOMInteractor';
+import { SecretService } from '../services/SecretService';
+import { BaseDOMInteractor, InteractableElement, NavigationOptions, WaitOptions, ElementRect, ValidationState } from './BaseDOMInteractor';
 
 /**
  * Playwright implementation of the DOM interactor
  */
 export class PlaywrightDOMInteractor extends BaseDOMInteractor {
-  constructor(private page: Page) {
+  /**
+   * @param page The Playwright page to interact with
+   * @param signal Optional signal that stops further interactions once the test is cancelled
+   */
+  constructor(private page: Page, private signal?: AbortSignal) {
     super();
   }
 
+  /**
+   * Throw if the test has been cancelled
+   * Called outside the try blocks so cancellation is never reported as a failed action
+   */
+  private throwIfAborted(): void {
+    this.signal?.throwIfAborted();
+  }
+
   /**
    * Convert an InteractableElement to a CSS selector that Playwright can use
+   * Static so selectors can also be derived outside a browser session (e.g. for exports)
    */
-  private buildSelector(element: InteractableElement): string {
+  static buildSelector(element: InteractableElement): string {
     // Use predefined selector if available
     if (element.selector) {
       return element.selector;
@@ -87,7 +101,7 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    */
   private async findElement(element: InteractableElement): Promise<ElementHandle | null> {
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       return await this.page.$(selector);
     } catch (error) {
       console.error('Error finding element:', error);
@@ -117,6 +131,8 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Navigate to a URL
    */
   async navigate(url: string, options?: NavigationOptions): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
       await this.page.goto(url, {
         timeout: options?.timeout || 30000,
@@ -133,8 +149,10 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Click on an element
    */
   async click(element: InteractableElement): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       
       // Ensure element is visible by scrolling to it
       const elementHandle = await this.ensureElementInView(element);
@@ -166,10 +184,16 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
 
   /**
    * Fill a form field
+   * {{secret:NAME}} placeholders are resolved here and nowhere else, so secret
+   * values never reach LLM decisions or results
+   * @throws If the value references an undefined secret
    */
   async fill(element: InteractableElement, value: string): Promise<boolean> {
+    this.throwIfAborted();
+    value = SecretService.getInstance().resolve(value);
+    
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       
       // Ensure element is visible by scrolling to it
       const elementHandle = await this.ensureElementInView(element);
@@ -214,8 +238,10 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Select an option from a dropdown
    */
   async select(element: InteractableElement, value: string): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       
       // Ensure element is visible by scrolling to it
       const elementHandle = await this.ensureElementInView(element);
@@ -236,8 +262,10 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Check or uncheck a checkbox
    */
   async check(element: InteractableElement, state: boolean = true): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       
       // Ensure element is visible by scrolling to it
       const elementHandle = await this.ensureElementInView(element);
@@ -262,6 +290,8 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Press a key
    */
   async pressKey(key: string): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
       await this.page.keyboard.press(key);
       return true;
@@ -275,8 +305,10 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Hover over an element
    */
   async hover(element: InteractableElement): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       
       // Ensure element is visible by scrolling to it
       const elementHandle = await this.ensureElementInView(element);
@@ -297,8 +329,10 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Wait for element to be visible
    */
   async waitForElement(element: InteractableElement, options?: WaitOptions): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       await this.page.waitForSelector(selector, {
         timeout: options?.timeout || 30000,
         state: options?.state || 'visible'
@@ -314,6 +348,8 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Wait for navigation to complete
    */
   async waitForNavigation(options?: WaitOptions): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
       await this.page.waitForNavigation({
         timeout: options?.timeout || 30000,
@@ -331,7 +367,7 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    */
   async getText(element: InteractableElement): Promise<string> {
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       return await this.page.textContent(selector) || '';
     } catch (error) {
       console.error('Get text error:', error);
@@ -344,7 +380,7 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    */
   async getValue(element: InteractableElement): Promise<string> {
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       return await this.page.inputValue(selector);
     } catch (error) {
       console.error('Get value error:', error);
@@ -352,6 +388,35 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
     }
   }
 
+  /**
+   * Get the validation state of a form field
+   * Sites that validate with ARIA instead of the constraint API are covered by aria-invalid
+   */
+  async getValidationState(element: InteractableElement): Promise<ValidationState | null> {
+    try {
+      const elementHandle = await this.findElement(element);
+      if (!elementHandle) return null;
+      
+      return await elementHandle.evaluate(el => {
+        const field = el as HTMLInputElement;
+        const ariaInvalid = field.getAttribute('aria-invalid') === 'true';
+        const describedBy = (field.getAttribute('aria-describedby') || '')
+          .split(/\s+/)
+          .map(id => document.getElementById(id)?.textContent?.trim())
+          .filter(Boolean)
+          .join(' ');
+        
+        return {
+          valid: (field.validity ? field.validity.valid : true) && !ariaInvalid,
+          message: field.validationMessage || (ariaInvalid ? describedBy : '')
+        };
+      });
+    } catch (error) {
+      console.error('Get validation state error:', error);
+      return null;
+    }
+  }
+
   /**
    * Check if element exists
    */
@@ -365,7 +430,7 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    */
   async isVisible(element: InteractableElement): Promise<boolean> {
     try {
-      const selector = this.buildSelector(element);
+      const selector = PlaywrightDOMInteractor.buildSelector(element);
       return await this.page.isVisible(selector);
     } catch (error) {
       console.error('Is visible error:', error);
@@ -456,9 +521,11 @@ export class PlaywrightDOMInteractor extends BaseDOMInteractor {
    * Submit a form
    */
   async submitForm(formElement?: InteractableElement): Promise<boolean> {
+    this.throwIfAborted();
+    
     try {
       if (formElement) {
-        const selector = this.buildSelector(formElement);
+        const selector = PlaywrightDOMInteractor.buildSelector(formElement);
         await this.page.dispatchEvent(selector, 'submit');
       } else {
         // Try to find a submit button first
@@ -5,6 +5,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { LLMDecision, VisionAnalysisResult } from '@/lib/types';
+import { getTypedValue } from '@/lib/redaction';
 
 // Log levels
 export enum LogLevel {
@@ -84,7 +85,7 @@ export const useLoggerStore = create<LoggerState>()(
       logLLMDecision: (decision: LLMDecision, stepName: string) => {
         if (!get().enabled) return;
         
-        const { action, confidence, value, reasoning, targetElement } = decision;
+        const { action, confidence, reasoning, targetElement } = decision;
         
         // Log the LLM decision
         const logDetails = {
@@ -97,7 +98,8 @@ export const useLoggerStore = create<LoggerState>()(
             text: targetElement.text,
             classes: targetElement.classes
           } : null,
-          value,
+          // Logs persist in local storage, so passwords typed as literals are masked
+          value: getTypedValue(decision),
         };
         
         // Main log entry
@@ -1,9 +1,15 @@
 import { TestWebsiteResponse, TestError } from "@/lib/types";
-import { formatDuration } from "@/lib/utils";
+import { formatDuration, getScreenshotUrl, isScreenshotId } from "@/lib/utils";
 import { pdfLogger } from "@/lib/logger";
+import { getTypedValue } from "@/lib/redaction";
 
 // Helper function to sanitize and validate base64 data
 export const getValidImageUrl = (base64Data?: string): string => {
+  // Stored screenshots are referenced by ID and served by the screenshot route
+  if (base64Data && isScreenshotId(base64Data)) {
+    return getScreenshotUrl(base64Data);
+  }
+  
   if (!base64Data || base64Data.trim() === '' || base64Data.length < 100) {
     return '';
   }
@@ -27,7 +33,33 @@ export const getValidImageUrl = (base64Data?: string): string => {
 
 // Helper to check if a screenshot is valid
 export const isValidScreenshot = (screenshot?: string): boolean => {
-  return !!screenshot && screenshot.trim() !== '' && screenshot.length > 100;
+  return !!screenshot && (isScreenshotId(screenshot) || (screenshot.trim() !== '' && screenshot.length > 100));
+};
+
+// jsPDF only embeds inline images, so stored screenshots are downloaded into data URLs first
+const loadImageData = async (screenshot: string): Promise<string> => {
+  const url = getValidImageUrl(screenshot);
+  if (url.startsWith('data:')) {
+    return url;
+  }
+  
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Screenshot could not be loaded (HTTP ${response.status})`);
+  }
+  const blob = await response.blob();
+  
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Image format of a data URL as jsPDF names it
+const getImageFormat = (dataUrl: string): string => {
+  return dataUrl.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG';
 };
 
 // Interface for test statistics
@@ -243,7 +275,7 @@ export const generateTestResultsPDF = async (
       pdf.text(`• Confidence: ${llmDecision.confidence}%`, margin + 8, y); y += 5;
       
       if (llmDecision.value) {
-        pdf.text(`• Value: ${llmDecision.value}`, margin + 8, y); y += 5;
+        pdf.text(`• Value: ${getTypedValue(llmDecision)}`, margin + 8, y); y += 5;
       }
       
       // Reasoning
@@ -321,7 +353,7 @@ export const generateTestResultsPDF = async (
     };
     
     // Function to add Vision API analysis to PDF
-    const addVisionAnalysisToPdf = (visionAnalysis: any, startY: number): number => {
+    const addVisionAnalysisToPdf = async (visionAnalysis: any, startY: number): Promise<number> => {
       let y = startY;
       
       if (!visionAnalysis) return y;
@@ -370,12 +402,12 @@ export const generateTestResultsPDF = async (
         // Try to add before screenshot
         if (isValidScreenshot(visionAnalysis.beforeScreenshot)) {
           try {
-            const beforeImgData = getValidImageUrl(visionAnalysis.beforeScreenshot);
+            const beforeImgData = await loadImageData(visionAnalysis.beforeScreenshot);
             const halfWidth = (contentWidth - 10) / 2;
             
             pdf.addImage(
               beforeImgData, 
-              'PNG', 
+              getImageFormat(beforeImgData), 
               margin + 8, 
               y, 
               halfWidth, 
@@ -398,12 +430,12 @@ export const generateTestResultsPDF = async (
         // Try to add after screenshot
         if (isValidScreenshot(visionAnalysis.afterScreenshot)) {
           try {
-            const afterImgData = getValidImageUrl(visionAnalysis.afterScreenshot);
+            const afterImgData = await loadImageData(visionAnalysis.afterScreenshot);
             const halfWidth = (contentWidth - 10) / 2;
             
             pdf.addImage(
               afterImgData, 
-              'PNG', 
+              getImageFormat(afterImgData), 
               margin + 12 + halfWidth, 
               y, 
               halfWidth, 
@@ -453,7 +485,7 @@ export const generateTestResultsPDF = async (
       
       // Add Vision API analysis
       if (visionAnalysis) {
-        yPos = addVisionAnalysisToPdf(visionAnalysis, yPos);
+        yPos = await addVisionAnalysisToPdf(visionAnalysis, yPos);
       }
       
       // Add error if present
@@ -481,8 +513,9 @@ export const generateTestResultsPDF = async (
       if (isValidScreenshot(screenshot)) {
         try {
           // Create an img element to load the screenshot
+          const imgData = await loadImageData(screenshot!);
           const img = new Image();
-          img.src = getValidImageUrl(screenshot);
+          img.src = imgData;
           
           // Wait for image to load
           const loadedImg = await new Promise<HTMLImageElement>((resolve, reject) => {
@@ -513,8 +546,8 @@ export const generateTestResultsPDF = async (
           
           // Add the image to PDF
           pdf.addImage(
-            getValidImageUrl(screenshot), 
-            'PNG', 
+            imgData, 
+            getImageFormat(imgData), 
             margin, 
             yPos, 
             pdfImgWidth, 
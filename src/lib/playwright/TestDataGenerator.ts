@@ -1,79 +1,196 @@
+import { TestDataField, TestDataLocale, TestDataProfileSettings, TestDataRecord } from '../types';
+import { TEST_DATA_LOCALES } from './testDataLocales';
+
+const COMPANY_PREFIXES = [
+  'Tech', 'Global', 'Digital', 'Smart', 'Future', 'Next', 'Modern', 'Advanced',
+  'Prime', 'Elite', 'Superior', 'Innovative', 'Creative', 'Dynamic', 'Progressive'
+];
+
+const COMPANY_SUFFIXES = [
+  'Systems', 'Solutions', 'Technologies', 'Innovations', 'Enterprises', 'Group',
+  'Corp', 'Inc', 'Industries', 'Partners', 'Associates', 'Services', 'Consulting'
+];
+
+const JOB_TITLES = [
+  'CEO', 'CTO', 'CFO', 'COO', 'Manager', 'Director', 'VP', 'Lead',
+  'Senior Engineer', 'Product Manager', 'Marketing Director', 'Sales Manager',
+  'Head of Operations', 'Chief Strategist', 'Principal Consultant'
+];
+
+const MESSAGES = [
+  'We would like to see a demo for our team.',
+  'Interested in learning more about pricing.',
+  'Please get in touch to schedule a call.',
+  'Looking to evaluate this for our company.'
+];
+
+// Reserved for documentation, so generated emails never reach a real inbox
+const DEFAULT_EMAIL_DOMAIN = 'example.com';
+
+/**
+ * Create a pseudo-random number generator (mulberry32) seeded from a string
+ */
+function createRandom(seed: string): () => number {
+  // FNV-1a hash of the seed
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Utility class for generating test data for form fields
+ * Each instance generates one consistent person (the email matches the name, and so on)
+ * from a data profile, and remembers which values were used
  */
 export class TestDataGenerator {
+  private settings: TestDataProfileSettings;
+  private profileName?: string;
+  private locale: TestDataLocale;
+  private seed: string;
+  private values: Partial<Record<TestDataField, string>> = {};
+  private used: Set<TestDataField> = new Set();
+
   /**
-   * Generate a random name
+   * @param settings The data profile; generates en-US data with a random seed when empty
+   * @param profileName Name of the saved profile the settings came from
    */
-  static generateName(): string {
-    const firstNames = [
-      'John', 'Jane', 'Alex', 'Sarah', 'Michael', 'Emma', 'David', 'Olivia', 
-      'James', 'Sophia', 'Robert', 'Ava', 'William', 'Emily', 'Joseph', 'Mia'
-    ];
-    
-    const lastNames = [
-      'Smith', 'Johnson', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez',
-      'Martinez', 'Hernandez', 'Lopez', 'Gonzalez', 'Wilson', 'Anderson', 'Thomas', 'Taylor'
-    ];
-    
-    const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-    const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
-    
-    return `${firstName} ${lastName}`;
+  constructor(settings: TestDataProfileSettings = {}, profileName?: string) {
+    this.settings = settings;
+    this.profileName = profileName;
+    this.locale = settings.locale || 'en-US';
+    this.seed = settings.seed || Math.random().toString(36).slice(2, 10);
   }
-  
+
   /**
-   * Generate a random email
+   * Get the value of a field, generating it on first use
    */
-  static generateEmail(): string {
-    const name = this.generateName().replace(' ', '.').toLowerCase();
-    const domains = ['example.com', 'test.com', 'demo.org', 'sample.net'];
-    const domain = domains[Math.floor(Math.random() * domains.length)];
-    
-    return `${name}@${domain}`;
+  get(field: TestDataField): string {
+    this.used.add(field);
+    return this.peek(field);
   }
-  
+
   /**
-   * Generate a random company name
+   * Every field of the generated person, e.g. to hand to the LLM
+   * Fields only count as used once they are typed, see markUsed
    */
-  static generateCompanyName(): string {
-    const prefixes = [
-      'Tech', 'Global', 'Digital', 'Smart', 'Future', 'Next', 'Modern', 'Advanced',
-      'Prime', 'Elite', 'Superior', 'Innovative', 'Creative', 'Dynamic', 'Progressive'
-    ];
-    
-    const suffixes = [
-      'Systems', 'Solutions', 'Technologies', 'Innovations', 'Enterprises', 'Group',
-      'Corp', 'Inc', 'Industries', 'Partners', 'Associates', 'Services', 'Consulting'
+  getAll(): Record<TestDataField, string> {
+    const fields: TestDataField[] = [
+      'firstName', 'lastName', 'fullName', 'email', 'phone', 'company', 'jobTitle', 'message',
+      'street', 'city', 'postalCode', 'country'
     ];
-    
-    const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-    const suffix = suffixes[Math.floor(Math.random() * suffixes.length)];
-    
-    return `${prefix} ${suffix}`;
+    return Object.fromEntries(fields.map(field => [field, this.peek(field)])) as Record<TestDataField, string>;
   }
-  
+
   /**
-   * Generate a random phone number
+   * Record the fields whose values appear in text typed into the page
    */
-  static generatePhoneNumber(): string {
-    const areaCode = Math.floor(Math.random() * 900) + 100;
-    const prefix = Math.floor(Math.random() * 900) + 100;
-    const lineNumber = Math.floor(Math.random() * 9000) + 1000;
-    
-    return `${areaCode}${prefix}${lineNumber}`;
+  markUsed(typedValue: string): void {
+    const typed = typedValue.trim().toLowerCase();
+    if (!typed) return;
+
+    for (const [field, value] of Object.entries(this.values) as [TestDataField, string][]) {
+      // Short values such as "VP" would match by accident
+      const expected = value.toLowerCase();
+      if (typed === expected || (expected.length >= 4 && typed.includes(expected))) {
+        this.used.add(field);
+      }
+    }
   }
-  
+
   /**
-   * Generate a random job title
+   * The profile, seed and values used so far
    */
-  static generateJobTitle(): string {
-    const positions = [
-      'CEO', 'CTO', 'CFO', 'COO', 'Manager', 'Director', 'VP', 'Lead',
-      'Senior Engineer', 'Product Manager', 'Marketing Director', 'Sales Manager',
-      'Head of Operations', 'Chief Strategist', 'Principal Consultant'
-    ];
-    
-    return positions[Math.floor(Math.random() * positions.length)];
+  getRecord(): TestDataRecord {
+    return {
+      profile: this.profileName,
+      locale: this.locale,
+      seed: this.seed,
+      values: Object.fromEntries(
+        (Object.entries(this.values) as [TestDataField, string][]).filter(([field]) => this.used.has(field))
+      )
+    };
+  }
+
+  /**
+   * Get a value without marking it as used
+   */
+  private peek(field: TestDataField): string {
+    if (this.values[field] === undefined) {
+      this.values[field] = this.settings.values?.[field] ?? this.generate(field);
+    }
+    return this.values[field]!;
+  }
+
+  /**
+   * Each field draws from its own sequence, so a seed gives the same values
+   * whatever order the fields are asked for in
+   */
+  private generate(field: TestDataField): string {
+    const data = TEST_DATA_LOCALES[this.locale];
+    const random = createRandom(`${this.seed}:${field}`);
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const fillPattern = (pattern: string): string => pattern.replace(/[#@]/g, char => char === '#'
+      ? String(Math.floor(random() * 10))
+      : String.fromCharCode(65 + Math.floor(random() * 26)));
+
+    switch (field) {
+      case 'firstName':
+        return pick(data.firstNames);
+      case 'lastName':
+        return pick(data.lastNames);
+      case 'fullName':
+        return `${this.peek('firstName')} ${this.peek('lastName')}`;
+      case 'email':
+        return this.generateEmail(`t${Math.floor(random() * 36 ** 6).toString(36).padStart(6, '0')}`);
+      case 'phone': {
+        const number = fillPattern(pick(data.phonePatterns));
+        return this.settings.phoneFormat === 'national'
+          ? `${data.trunkPrefix}${number}`
+          : `${data.dialCode} ${number}`;
+      }
+      case 'company':
+        return `${pick(COMPANY_PREFIXES)} ${pick(COMPANY_SUFFIXES)}`;
+      case 'jobTitle':
+        return pick(JOB_TITLES);
+      case 'message':
+        return pick(MESSAGES);
+      case 'street': {
+        const houseNumber = String(Math.floor(random() * 200) + 1);
+        const street = pick(data.streets);
+        return data.houseNumberFirst ? `${houseNumber} ${street}` : `${street} ${houseNumber}`;
+      }
+      case 'city':
+        return pick(data.cities);
+      case 'postalCode':
+        return fillPattern(pick(data.postalCodePatterns));
+      case 'country':
+        return data.country;
+    }
+  }
+
+  /**
+   * Plus-address the profile's email base, or derive an address from the name
+   */
+  private generateEmail(tag: string): string {
+    const emailBase = this.settings.emailBase || process.env.TEST_DATA_EMAIL_BASE;
+
+    if (emailBase) {
+      const [localPart, domain] = emailBase.split('@');
+      return `${localPart}+${tag}@${domain}`;
+    }
+
+    const name = `${this.peek('firstName')}.${this.peek('lastName')}`
+      .normalize('NFD')
+      .replace(/[^a-zA-Z.]/g, '')
+      .toLowerCase();
+    return `${name}.${tag}@${DEFAULT_EMAIL_DOMAIN}`;
   }
-} 
\ No newline at end of file
+}
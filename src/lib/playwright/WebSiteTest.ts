@@ -1,11 +1,55 @@
-import { chromium, Browser, Page, BrowserContext } from 'playwright';
-import { CustomStepResult, LLMDecision, PageElement, PageState, TestWebsiteRequest, TestWebsiteResponse, TestError, TestStep } from '../types';
-import { generateTestId } from '../utils';
+import fs from 'fs';
+import path from 'path';
+import { Browser, Page, BrowserContext, BrowserContextOptions, Request, Video } from 'playwright';
+import { AuthSummary, AutoFillOptions, CompiledScript, CompiledStep, CrawlCTACheck, CrawlFormCheck, CrawlOptions, CrawlPageResult, CrawlReport, ConsoleEntry, CustomStepResult, EmailCheck, EmailVerificationOptions, EmailVerificationReport, FormFieldIdentification, FormFieldResult, FormFillReport, LLMDecision, NetworkAssertion, NetworkEntry, PageElement, PageState, RecordedAction, StorageState, TestArtifact, TestEnvironment, TestWebsiteOptions, TestWebsiteRequest, TestWebsiteResponse, TestError, TestStep, TokenUsage } from '../types';
+import { generateTestId, matchesText } from '../utils';
 import { BaseLLMService } from '../services/BaseLLMService';
-import { OpenAIService } from '../services/OpenAIService';
+import { createLLMService } from '../services/LLMProviderRegistry';
 import { PlaywrightDOMInteractor } from '../interactions/PlaywrightDOMInteractor';
 import { InteractableElement } from '../interactions/BaseDOMInteractor';
 import { TestResultService } from '../services/TestResultService';
+import { CompiledScriptService } from '../services/CompiledScriptService';
+import { TestDataProfileService } from '../services/TestDataProfileService';
+import { ScreenshotService } from '../services/ScreenshotService';
+import { isRecipeDomain, LoginRecipeService } from '../services/LoginRecipeService';
+import { SecretService } from '../services/SecretService';
+import { getSecretReferences, Redactor } from '../redaction';
+import { TestDataGenerator } from './TestDataGenerator';
+import { describeNetworkEntry, evaluateNetworkAssertion, isCapturedRequest, isFailedRequest, truncatePostData } from './networkCapture';
+import { BaseInboxProvider } from '../inbox/BaseInboxProvider';
+import { createInboxProvider } from '../inbox/InboxProviderRegistry';
+import { getArtifactContentType, getArtifactDir } from '../storage/artifactStorage';
+import { maskHeaders, resolveBrowserProfile } from './browserProfiles';
+import { runLoginRecipe } from './loginRecipe';
+import { getCTAIssue, getFormIssue, normalizeCrawlUrl, parseRobotsSitemaps, parseSitemap } from './siteCrawl';
+import { detectLeadForm, fieldToPageElement, FormDescriptor, FormFieldDescriptor, generateFieldValue, inferFieldType, isConsentField } from './formAutoFill';
+
+// How long a replayed selector may take to appear before the step falls back to the LLM
+const REPLAY_RESOLVE_TIMEOUT = 5000;
+
+// Crawl mode defaults and limits
+const CRAWL_DEFAULTS: Required<CrawlOptions> = { source: 'auto', maxDepth: 2, maxPages: 20 };
+const CRAWL_PAGE_TIMEOUT = 30000;
+const CRAWL_MAX_SITEMAPS = 10;
+// Below this confidence the page is treated as having no primary CTA
+const CRAWL_CTA_MIN_CONFIDENCE = 50;
+// How long to wait for the page to respond after submitting an auto-filled form
+const AUTOFILL_SUBMIT_TIMEOUT = 15000;
+
+// How long to wait for a triggered email unless the request says otherwise
+const EMAIL_VERIFICATION_TIMEOUT = 120000;
+
+// Requests beyond this many are not recorded, so long runs can't exhaust memory
+const MAX_NETWORK_ENTRIES = 1000;
+// How long a step with network assertions waits for its requests to finish
+const NETWORK_SETTLE_TIMEOUT = 5000;
+// Console errors beyond this many are not recorded
+const MAX_CONSOLE_ENTRIES = 500;
+// Playwright writes videos here under random names until they are saved per page
+const VIDEO_RECORDING_DIR = '.recording';
+const TRACE_ARTIFACT = 'trace.zip';
+
+const CRAWL_CTA_INSTRUCTION = 'the primary call-to-action of this page, such as "Book a Demo", "Get Started", "Sign Up", "Contact Sales" or "Start Free Trial"';
 
 export class WebSiteTest {
   private browser: Browser | null = null;
@@ -19,18 +63,56 @@ export class WebSiteTest {
   private errors: TestError[] = [];
   private startTime: number = 0;
   private url: string = '';
-  private options = {
+  private options: TestWebsiteOptions = {
     timeout: 300000,
     screenshotCapture: true,
-    headless: true
+    headless: true,
+    maxStepActions: 10,
+    maxStepDuration: 180000
   };
   private llmService: BaseLLMService | null = null;
   private customStepsResults: CustomStepResult[] = [];
   private testResultService: TestResultService;
+  private signal?: AbortSignal;
+  private replayScript: CompiledScript | null = null;
+  private crawlOptions: Required<CrawlOptions>;
+  private crawlSource: CrawlReport['source'] = 'links';
+  private crawlPages: CrawlPageResult[] = [];
+  // HTTP status of the last document loaded in the main tab
+  private lastDocumentStatus?: number;
+  private autoFillOptions: AutoFillOptions | null;
+  private formFill: FormFillReport | null = null;
+  private testData: TestDataGenerator;
+  private verifyEmailOptions: EmailVerificationOptions | null;
+  private inbox: BaseInboxProvider | null = null;
+  private emailVerification: EmailVerificationReport | null = null;
+  private networkAssertions: NetworkAssertion[];
+  // Requests of every page, in the order they were made
+  private networkLog: NetworkEntry[] = [];
+  // Console errors and uncaught exceptions of every page, in the order they happened
+  private consoleLog: ConsoleEntry[] = [];
+  // Number of customSteps requested, not counting steps run from an email link
+  private customStepCount = 0;
+  // Trace and video files of the run, written to disk during cleanup
+  private artifacts: TestArtifact[] = [];
+  private videos: { name: string; video: Video }[] = [];
+  private environment: TestEnvironment | null = null;
+  private cleanupPromise: Promise<void> | null = null;
+  // Replaces the values of the secrets with their placeholders
+  private redact: Redactor;
 
-  constructor(request: TestWebsiteRequest) {
+  /**
+   * @param request The test request
+   * @param signal Optional signal used to cancel the run cooperatively
+   */
+  constructor(request: TestWebsiteRequest, signal?: AbortSignal) {
     this.testId = generateTestId();
     this.url = request.url;
+    this.signal = signal;
+    this.crawlOptions = { ...CRAWL_DEFAULTS, ...request.crawl };
+    this.autoFillOptions = request.autoFillForm || null;
+    this.verifyEmailOptions = request.verifyEmail || null;
+    this.networkAssertions = request.networkAssertions || [];
     
     if (request.options) {
       this.options = {
@@ -39,17 +121,107 @@ export class WebSiteTest {
       };
     }
     
-    // Initialize LLM service if API key is available
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.llmService = new OpenAIService(apiKey);
+    const tracedSecret = WebSiteTest.findTracedSecret(request);
+    if (tracedSecret) {
+      throw new Error(`recordTrace cannot be used with secret ${tracedSecret}: traces record typed values unredacted`);
+    }
+    
+    // Emails can only be verified when the form is filled with an address the inbox receives
+    if (this.verifyEmailOptions) {
+      this.inbox = createInboxProvider();
+      if (!this.inbox) {
+        throw new Error('No inbox provider is configured (see INBOX_PROVIDER)');
+      }
+    }
+    
+    // Resolve the data profile for the values typed into forms
+    this.testData = TestDataProfileService.getInstance().createGenerator(
+      this.options.dataProfile,
+      this.inbox ? { emailBase: this.inbox.getEmailBase() } : {}
+    );
+    
+    // Initialize the configured LLM provider if it has everything it needs
+    this.llmService = createLLMService();
+    this.llmService?.setAbortSignal(signal);
+    this.redact = SecretService.getInstance().createRedactor();
+    this.llmService?.setRedactor(this.redact);
+    
+    // Load the compiled script to replay, if any
+    if (request.replayScriptId) {
+      this.replayScript = CompiledScriptService.getInstance().getScript(request.replayScriptId);
+      if (!this.replayScript) {
+        throw new Error(`Compiled script ${request.replayScriptId} not found`);
+      }
     }
     
     // Initialize the test result service
     this.testResultService = TestResultService.getInstance();
     
     // Create a pending test entry
-    this.testResultService.createPendingTest(this.testId);
+    this.testResultService.createPendingTest(this.testId, this.url, request.suite);
+  }
+
+  /**
+   * Find a secret a run would type while recording a trace
+   * Traces keep the values typed by fill and the DOM snapshots of the inputs, which
+   * can't be redacted, so such runs are rejected before they are queued
+   * @returns The name of the first secret referenced, or undefined if the run records no trace or types none
+   */
+  static findTracedSecret(request: TestWebsiteRequest): string | undefined {
+    if (!request.options?.recordTrace) return undefined;
+    
+    const { dataProfile, auth } = request.options;
+    const profile = typeof dataProfile === 'string'
+      ? TestDataProfileService.getInstance().getProfile(dataProfile)
+      : dataProfile;
+    const recipe = auth?.loginRecipe ? LoginRecipeService.getInstance().getRecipe(auth.loginRecipe) : null;
+    const script = request.replayScriptId ? CompiledScriptService.getInstance().getScript(request.replayScriptId) : null;
+    
+    const values = [
+      ...(request.customSteps || []),
+      ...(request.verifyEmail?.steps || []),
+      profile ? JSON.stringify(profile) : '',
+      ...(recipe?.steps.map(step => step.value || '') || []),
+      ...(script?.steps.flatMap(step => step.actions.map(action => action.value || '')) || [])
+    ];
+    return values.flatMap(getSecretReferences)[0];
+  }
+
+  /**
+   * Get the ID of this test run
+   */
+  getTestId(): string {
+    return this.testId;
+  }
+
+  /**
+   * Throw if the run has been cancelled
+   */
+  private throwIfAborted(): void {
+    this.signal?.throwIfAborted();
+  }
+
+  /**
+   * Wait for the given time, resolving early with an error if the run is cancelled
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (this.signal?.aborted) {
+        reject(this.signal.reason);
+        return;
+      }
+      
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      
+      this.signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -62,16 +234,47 @@ export class WebSiteTest {
       // Update test status to running
       this.testResultService.updateTestToRunning(this.testId);
       
-      this.browser = await chromium.launch({
+      const profile = resolveBrowserProfile(this.options);
+      this.browser = await profile.browserType.launch({
         headless: this.options.headless,
       });
       
+      // Start logged in when the run has a session or a login recipe
+      const auth = await this.resolveAuth(profile.contextOptions);
+      
       // Configure browser context to listen for new page events
       this.context = await this.browser.newContext({
-        viewport: { width: 1280, height: 720 },
-        userAgent: 'RevylBot/1.0 (+https://revyl.io/bot)'
+        ...profile.contextOptions,
+        ...(auth ? { storageState: auth.storageState } : {}),
+        ...(this.options.recordVideo ? {
+          recordVideo: { dir: path.join(getArtifactDir(this.testId), VIDEO_RECORDING_DIR), size: profile.viewport }
+        } : {})
       });
       
+      this.environment = {
+        browser: profile.browser,
+        browserVersion: this.browser.version(),
+        device: this.options.device,
+        viewport: profile.viewport,
+        isMobile: profile.isMobile,
+        locale: this.options.locale,
+        timezoneId: this.options.timezoneId,
+        userAgent: profile.contextOptions.userAgent!,
+        userAgentPreset: profile.userAgentPreset,
+        extraHeaders: maskHeaders(profile.contextOptions.extraHTTPHeaders),
+        geolocation: profile.contextOptions.geolocation,
+        permissions: profile.contextOptions.permissions,
+        auth: auth?.summary
+      };
+      
+      if (this.options.recordTrace) {
+        await this.context.tracing.start({ screenshots: true, snapshots: true });
+        this.addArtifact(TRACE_ARTIFACT, 'trace');
+      }
+      
+      // Record the requests of every tab for the network log of each step
+      this.captureNetwork(this.context);
+      
       // Set up listener for new pages (tabs) being created
       this.context.on('page', async (page) => {
         // Store the new page with a unique identifier
@@ -79,8 +282,19 @@ export class WebSiteTest {
         this.pages.set(pageId, page);
         this.activePage = page;
         
+        // Record JS errors of every tab, not just the active one
+        this.captureConsole(page, pageId);
+        
+        // Every tab is recorded to its own video
+        const video = page.video();
+        if (video) {
+          const name = `video-${pageId}.webm`;
+          this.videos.push({ name, video });
+          this.addArtifact(name, 'video', pageId);
+        }
+        
         // Set up domInteractor for the new active page
-        this.domInteractor = new PlaywrightDOMInteractor(page);
+        this.domInteractor = new PlaywrightDOMInteractor(page, this.signal);
         
         // Handle page close events
         page.on('close', () => {
@@ -96,7 +310,7 @@ export class WebSiteTest {
           if (this.activePage === page && this.pages.size > 0) {
             const newActivePage = Array.from(this.pages.values())[0];
             this.activePage = newActivePage;
-            this.domInteractor = new PlaywrightDOMInteractor(newActivePage);
+            this.domInteractor = new PlaywrightDOMInteractor(newActivePage, this.signal);
           }
         });
       });
@@ -107,14 +321,62 @@ export class WebSiteTest {
       this.activePage = this.page;
       
       // Initialize DOM interactor for the initial page
-      this.domInteractor = new PlaywrightDOMInteractor(this.page);
+      this.domInteractor = new PlaywrightDOMInteractor(this.page, this.signal);
       
       // Update progress after initialization
       this.testResultService.updateTestProgress(this.testId, 30);
     } catch (error) {
       this.addError('initialization', 'Failed to initialize browser', error);
-      this.testResultService.failTest(this.testId, 'Failed to initialize browser: ' + (error instanceof Error ? error.message : String(error)));
+      if (this.signal?.aborted) throw error;
+      throw new Error('Failed to initialize browser: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+  
+  /**
+   * Get the session the run starts with from its auth options
+   * On a cache miss the login recipe runs in a separate context, so the
+   * credentials it types never reach the trace, video or network log of the run
+   * @returns The session and how it was obtained, or null for an anonymous run
+   */
+  private async resolveAuth(contextOptions: BrowserContextOptions): Promise<{ storageState: StorageState; summary: AuthSummary } | null> {
+    const auth = this.options.auth;
+    if (auth?.storageState) {
+      return { storageState: auth.storageState, summary: { source: 'storageState' } };
+    }
+    if (!auth?.loginRecipe) return null;
+    
+    const recipeService = LoginRecipeService.getInstance();
+    const recipe = recipeService.getRecipe(auth.loginRecipe);
+    if (!recipe) {
+      throw new Error(`Login recipe ${auth.loginRecipe} not found`);
+    }
+    if (!isRecipeDomain(recipe, this.url)) {
+      throw new Error(`Login recipe ${recipe.name} is for ${recipe.domain}, not ${new URL(this.url).hostname}`);
+    }
+    
+    const cached = recipeService.getSession(recipe.name);
+    if (cached) {
+      return {
+        storageState: cached.storageState,
+        summary: { source: 'loginRecipe', loginRecipe: recipe.name, sessionReused: true, sessionExpiresAt: cached.expiresAt }
+      };
+    }
+    
+    this.addStep('login', 'running');
+    const loginContext = await this.browser!.newContext(contextOptions);
+    try {
+      const session = recipeService.saveSession(recipe, await runLoginRecipe(loginContext, recipe, this.signal));
+      this.updateStepStatus('login', 'success');
+      
+      return {
+        storageState: session.storageState,
+        summary: { source: 'loginRecipe', loginRecipe: recipe.name, sessionReused: false, sessionExpiresAt: session.expiresAt }
+      };
+    } catch (error) {
+      this.updateStepStatus('login', 'failure');
       throw error;
+    } finally {
+      await loginContext.close().catch(() => {});
     }
   }
   
@@ -122,40 +384,50 @@ export class WebSiteTest {
    * Run test with custom steps guided by LLM
    */
   async runTestWithCustomSteps(url: string, customSteps: string[]): Promise<TestWebsiteResponse> {
+    // Close the browser as soon as the run is cancelled so pending Playwright calls fail fast
+    const onAbort = () => {
+      this.cleanup();
+    };
+    this.signal?.addEventListener('abort', onAbort, { once: true });
+    
     try {
+      this.throwIfAborted();
       await this.initialize();
       
+      // The inbox must be receiving before the form is submitted
+      await this.inbox?.start();
+      
       // Step 1: Navigate to page
       await this.navigateToPage(url);
       
       // Update progress after navigation
       this.testResultService.updateTestProgress(this.testId, 40);
       
-      // Execute custom steps if LLM service is available
-      if (this.llmService) {
-        const totalSteps = customSteps.length;
+      // Execute custom steps if LLM service or a compiled script is available
+      if (this.llmService || this.replayScript) {
+        const followUpSteps = this.verifyEmailOptions?.steps || [];
+        this.customStepCount = customSteps.length;
+        const totalSteps = customSteps.length + followUpSteps.length;
         
-        for (let i = 0; i < totalSteps; i++) {
-          const step = customSteps[i];
-          const stepResult = await this.executeCustomStep(step);
-          this.customStepsResults.push(stepResult);
-          
-          // Calculate progress based on steps completed (40-95%)
-          const stepProgress = 40 + Math.floor(((i + 1) / totalSteps) * 55);
-          this.testResultService.updateTestProgress(this.testId, stepProgress);
-          
-          // Update test with custom step result
-          this.testResultService.updateTestWithCustomStepResult(this.testId, stepResult);
+        await this.runCustomSteps(customSteps, totalSteps);
+        
+        // Fill and submit the lead form once the steps have led to it
+        if (this.autoFillOptions && this.customStepsResults.every(step => step.success)) {
+          this.formFill = await this.autoFillForm();
+        }
+        
+        // Wait for the email the form triggered, then continue from the link in it
+        if (this.verifyEmailOptions && this.customStepsResults.every(step => step.success) && this.formFill?.success !== false) {
+          this.emailVerification = await this.verifyEmail(this.verifyEmailOptions);
           
-          // Stop execution if a step fails
-          if (!stepResult.success) {
-            break;
+          if (this.emailVerification.success && this.emailVerification.followedLink && followUpSteps.length > 0) {
+            await this.runCustomSteps(followUpSteps, totalSteps);
           }
         }
       } else {
         // Fall back to standard test if LLM service is not available
         this.addError('custom_steps', 'LLM service not available', 
-          'The OpenAI API key is not configured. Falling back to standard test.');
+          'No LLM provider is configured (see LLM_PROVIDER). Falling back to standard test.');
       }
       
       // Determine success based on custom steps execution
@@ -166,7 +438,7 @@ export class WebSiteTest {
         step.instruction.toLowerCase().includes('click') || 
         step.instruction.toLowerCase().includes('button'));
       
-      const formSubmitted = this.customStepsResults.some(step => 
+      const formSubmitted = Boolean(this.formFill?.success) || this.customStepsResults.some(step => 
         step.instruction.toLowerCase().includes('submit') || 
         step.instruction.toLowerCase().includes('form'));
       
@@ -175,14 +447,923 @@ export class WebSiteTest {
       
       return this.generateResponseWithCustomSteps(ctaFound, formSubmitted);
     } catch (error) {
+      if (this.signal?.aborted) {
+        // Cancellation is recorded by whoever aborted the run
+        this.addError('cancelled', 'Test was cancelled', this.signal.reason);
+        return this.generateResponseWithCustomSteps(false, false);
+      }
+      // The failure is recorded by the caller, so the test reaches a single final status
       this.addError('custom_step_execution', 'Custom step execution failed', error);
-      this.testResultService.failTest(this.testId, 'Custom step execution failed: ' + (error instanceof Error ? error.message : String(error)));
-      return this.generateResponseWithCustomSteps(false, false);
+      throw error;
     } finally {
+      this.signal?.removeEventListener('abort', onAbort);
       await this.cleanup();
     }
   }
   
+  /**
+   * Run custom steps in order until one fails
+   * @param totalSteps Number of custom steps in the whole run, used for progress
+   */
+  private async runCustomSteps(steps: string[], totalSteps: number): Promise<void> {
+    for (const step of steps) {
+      this.throwIfAborted();
+      const index = this.customStepsResults.length;
+      const networkStart = this.networkLog.length;
+      const consoleStart = this.consoleLog.length;
+      const stepResult = this.checkStepConsole(
+        await this.checkStepNetwork(this.storeStepScreenshots(await this.runCustomStep(step, index)), index, networkStart),
+        consoleStart
+      );
+      this.customStepsResults.push(stepResult);
+      
+      // Calculate progress based on steps completed (40-95%)
+      const stepProgress = 40 + Math.floor(((index + 1) / totalSteps) * 55);
+      this.testResultService.updateTestProgress(this.testId, stepProgress);
+      
+      // Update test with custom step result
+      this.testResultService.updateTestWithCustomStepResult(this.testId, stepResult);
+      
+      // Stop execution if a step fails
+      if (!stepResult.success) {
+        break;
+      }
+    }
+  }
+  
+  /**
+   * Record the requests of every page in the context
+   */
+  private captureNetwork(context: BrowserContext): void {
+    const requests = new WeakMap<Request, { entry: NetworkEntry; startTime: number }>();
+    
+    context.on('request', (request) => {
+      if (this.networkLog.length >= MAX_NETWORK_ENTRIES) return;
+      if (!isCapturedRequest(request.method(), request.resourceType())) return;
+      
+      const entry: NetworkEntry = {
+        method: request.method(),
+        url: request.url(),
+        resourceType: request.resourceType(),
+        startedAt: new Date().toISOString(),
+        postData: truncatePostData(request.postData(), this.redact)
+      };
+      this.networkLog.push(entry);
+      requests.set(request, { entry, startTime: Date.now() });
+    });
+    
+    context.on('response', (response) => {
+      const record = requests.get(response.request());
+      if (record) {
+        record.entry.status = response.status();
+        record.entry.statusText = response.statusText();
+      }
+    });
+    
+    context.on('requestfinished', (request) => {
+      const record = requests.get(request);
+      if (record) {
+        record.entry.duration = Date.now() - record.startTime;
+      }
+    });
+    
+    context.on('requestfailed', (request) => {
+      const record = requests.get(request);
+      if (record) {
+        record.entry.failure = request.failure()?.errorText || 'Request failed';
+        record.entry.duration = Date.now() - record.startTime;
+      }
+    });
+  }
+  
+  /**
+   * Replace the inline screenshots of a step result with the IDs of the stored images
+   */
+  private storeStepScreenshots(stepResult: CustomStepResult): CustomStepResult {
+    const screenshots = ScreenshotService.getInstance();
+    const { visionAnalysis } = stepResult;
+    
+    return {
+      ...stepResult,
+      screenshot: screenshots.save(stepResult.screenshot),
+      visionAnalysis: visionAnalysis && {
+        ...visionAnalysis,
+        beforeScreenshot: screenshots.save(visionAnalysis.beforeScreenshot),
+        afterScreenshot: screenshots.save(visionAnalysis.afterScreenshot)
+      }
+    };
+  }
+  
+  /**
+   * Record console errors and uncaught exceptions of a page
+   */
+  private captureConsole(page: Page, pageId: string): void {
+    const record = (entry: Omit<ConsoleEntry, 'pageId' | 'url' | 'timestamp'>) => {
+      if (this.consoleLog.length >= MAX_CONSOLE_ENTRIES) return;
+      this.consoleLog.push({
+        ...entry,
+        pageId,
+        url: page.url(),
+        timestamp: new Date().toISOString()
+      });
+    };
+    
+    page.on('console', (message) => {
+      if (message.type() !== 'error') return;
+      
+      const { url, lineNumber, columnNumber } = message.location();
+      record({
+        type: 'console',
+        text: message.text(),
+        location: url ? `${url}:${lineNumber + 1}:${columnNumber + 1}` : undefined
+      });
+    });
+    
+    page.on('pageerror', (error) => {
+      record({ type: 'pageerror', text: error.stack || error.message });
+    });
+  }
+  
+  /**
+   * Attach the console errors that happened during a step, failing it if the run requires a clean console
+   * @param consoleStart Length of the console log when the step started
+   */
+  private checkStepConsole(stepResult: CustomStepResult, consoleStart: number): CustomStepResult {
+    const entries = this.consoleLog.slice(consoleStart);
+    const failsStep = this.options.failOnConsoleErrors && entries.length > 0 && stepResult.success;
+    
+    return {
+      ...stepResult,
+      console: entries,
+      ...(failsStep ? {
+        success: false,
+        status: 'failure' as const,
+        error: `${entries.length} console error(s) during the step, first: ${entries[0].text.split('\n')[0]}`
+      } : {})
+    };
+  }
+  
+  /**
+   * Attach the requests made during a step, report the failed ones and evaluate the step's network assertions
+   * @param networkStart Length of the network log when the step started
+   */
+  private async checkStepNetwork(stepResult: CustomStepResult, index: number, networkStart: number): Promise<CustomStepResult> {
+    const assertions = this.networkAssertions.filter(assertion =>
+      (assertion.step ?? this.customStepCount - 1) === index);
+    
+    // A form post may still be in flight when the LLM reports the step complete
+    if (assertions.length > 0) {
+      const deadline = Date.now() + NETWORK_SETTLE_TIMEOUT;
+      while (Date.now() < deadline &&
+        this.networkLog.slice(networkStart).some(entry => entry.status === undefined && !entry.failure)) {
+        await this.delay(250);
+      }
+    }
+    
+    const network = this.networkLog.slice(networkStart);
+    const failedRequests = network.filter(isFailedRequest);
+    if (failedRequests.length > 0) {
+      this.addError(
+        `custom_step_${index + 1}`,
+        `${failedRequests.length} network request(s) failed during "${stepResult.instruction}"`,
+        failedRequests.map(describeNetworkEntry).join('\n'),
+        failedRequests
+      );
+    }
+    
+    const results = assertions.map(assertion => evaluateNetworkAssertion(assertion, network));
+    const failedAssertion = results.find(result => !result.passed);
+    
+    return {
+      ...stepResult,
+      network,
+      networkAssertions: results.length > 0 ? results : undefined,
+      ...(failedAssertion && stepResult.success ? {
+        success: false,
+        status: 'failure' as const,
+        error: failedAssertion.message
+      } : {})
+    };
+  }
+  
+  /**
+   * Wait for the email sent to the generated address, check its subject and body, and optionally open a link in it
+   */
+  private async verifyEmail(options: EmailVerificationOptions): Promise<EmailVerificationReport> {
+    const address = this.testData.get('email');
+    const timeout = options.timeout || EMAIL_VERIFICATION_TIMEOUT;
+    const report: EmailVerificationReport = {
+      provider: this.inbox!.name,
+      address,
+      checks: [],
+      success: false
+    };
+    this.addStep('email_verification', 'running');
+    
+    try {
+      const message = await this.inbox!.waitForMessage(address, {
+        since: new Date(this.startTime),
+        timeout,
+        signal: this.signal
+      });
+      this.throwIfAborted();
+      
+      if (!message) {
+        throw new Error(`No email to ${address} arrived within ${Math.round(timeout / 1000)}s`);
+      }
+      report.message = {
+        from: message.from,
+        subject: message.subject,
+        receivedAt: message.receivedAt,
+        links: message.links
+      };
+      
+      const check = (name: EmailCheck['name'], expected: string, passed: boolean) => {
+        report.checks.push({ name, expected, passed });
+      };
+      if (options.subject) {
+        check('subject', options.subject, matchesText(options.subject, message.subject));
+      }
+      if (options.body) {
+        check('body', options.body, matchesText(options.body, message.text));
+      }
+      
+      if (options.followLink && report.checks.every(item => item.passed)) {
+        const link = message.links.find(item =>
+          matchesText(options.followLink!, item.text || '') || matchesText(options.followLink!, item.url));
+        check('link', options.followLink, Boolean(link));
+        
+        if (link) {
+          const opened = await this.domInteractor!.navigate(link.url, {
+            timeout: this.options.timeout,
+            waitUntil: 'networkidle'
+          });
+          if (!opened) {
+            throw new Error(`Failed to open ${link.url} from the email`);
+          }
+          report.followedLink = link.url;
+          await this.captureScreenshot('email_verification');
+        }
+      }
+      
+      const failed = report.checks.filter(item => !item.passed);
+      if (failed.length > 0) {
+        report.error = `Email "${message.subject}" did not match: ${failed.map(item => `${item.name} "${item.expected}"`).join(', ')}`;
+      }
+      report.success = !report.error;
+    } catch (error) {
+      if (this.signal?.aborted) throw error;
+      
+      report.error = error instanceof Error ? error.message : String(error);
+      this.addError('email_verification', 'Failed to verify email', error);
+    }
+    
+    this.updateStepStatus('email_verification', report.success ? 'success' : 'failure');
+    return report;
+  }
+  
+  /**
+   * Detect the lead form, fill every field with generated data, submit it and verify the confirmation
+   * Fields are classified by identifyFormFields, with heuristics for any the LLM skips
+   */
+  private async autoFillForm(): Promise<FormFillReport> {
+    const report: FormFillReport = { fields: [], submitted: false, success: false };
+    this.addStep('form_autofill', 'running');
+    
+    try {
+      const page = this.domInteractor!.getPage();
+      const formSelector = this.autoFillOptions?.formSelector;
+      const form = await page.evaluate(detectLeadForm, formSelector);
+      if (!form) {
+        throw new Error(formSelector ? `No fillable form matches ${formSelector}` : 'No form with fillable fields was found');
+      }
+      report.formSelector = formSelector || form.selector;
+      
+      const classifications = await this.classifyFormFields(form.fields);
+      for (const [index, field] of form.fields.entries()) {
+        this.throwIfAborted();
+        report.fields.push(await this.fillFormField(field, classifications.get(index)));
+      }
+      
+      await this.captureScreenshot('form_autofill');
+      const networkStart = this.networkLog.length;
+      report.submitted = await this.submitLeadForm(form);
+      
+      await page.waitForLoadState('load', { timeout: AUTOFILL_SUBMIT_TIMEOUT }).catch(() => undefined);
+      await this.delay(1500);
+      
+      // Fields that are still on the page and invalid blocked the submission
+      for (const [index, field] of form.fields.entries()) {
+        const state = await this.domInteractor!.getValidationState({ tag: field.tag, selector: field.selector });
+        if (state && !state.valid) {
+          report.fields[index].rejected = true;
+          report.fields[index].validationMessage = state.message || report.fields[index].validationMessage;
+        }
+      }
+      
+      if (this.llmService) {
+        report.confirmation = await this.llmService.validateConfirmation(await this.extractPageState(true));
+      }
+      
+      report.network = this.networkLog.slice(networkStart);
+      const failedRequests = report.network.filter(isFailedRequest);
+      if (failedRequests.length > 0) {
+        this.addError(
+          'form_autofill',
+          `${failedRequests.length} network request(s) failed after submitting the form`,
+          failedRequests.map(describeNetworkEntry).join('\n'),
+          failedRequests
+        );
+      }
+      
+      const rejected = report.fields.filter(field => field.rejected);
+      if (!report.submitted) {
+        report.error = 'The form could not be submitted';
+      } else if (rejected.length > 0) {
+        report.error = `${rejected.length} field(s) rejected: ${rejected.map(field => field.label).join(', ')}`;
+      } else if (report.confirmation && !report.confirmation.isConfirmation) {
+        report.error = `No confirmation after submitting: ${report.confirmation.reasoning}`;
+      }
+      report.success = !report.error;
+    } catch (error) {
+      if (this.signal?.aborted) throw error;
+      
+      report.error = error instanceof Error ? error.message : String(error);
+      this.addError('form_autofill', 'Failed to auto-fill form', error);
+    }
+    
+    this.updateStepStatus('form_autofill', report.success ? 'success' : 'failure');
+    return report;
+  }
+  
+  /**
+   * Ask the LLM what each form field is for
+   * @returns The identification of each field by its index
+   */
+  private async classifyFormFields(fields: FormFieldDescriptor[]): Promise<Map<number, FormFieldIdentification>> {
+    const classifications = new Map<number, FormFieldIdentification>();
+    if (!this.llmService) return classifications;
+    
+    const identifications = await this.llmService.identifyFormFields({
+      title: await this.domInteractor!.getPageTitle(),
+      url: await this.domInteractor!.getPageUrl(),
+      screenshot: '',
+      elements: fields.map(fieldToPageElement),
+      timestamp: new Date().toISOString()
+    });
+    
+    for (const identification of identifications) {
+      const index = Number(identification.elementId) - 1;
+      if (index >= 0 && index < fields.length && identification.confidence > 0) {
+        classifications.set(index, identification);
+      }
+    }
+    return classifications;
+  }
+  
+  /**
+   * Fill a single form field and read back whether the page accepted the value
+   */
+  private async fillFormField(field: FormFieldDescriptor, identification?: FormFieldIdentification): Promise<FormFieldResult> {
+    const element = { tag: field.tag, selector: field.selector };
+    const result: FormFieldResult = {
+      label: field.label,
+      name: field.name,
+      inputType: field.type,
+      fieldType: identification?.fieldType || inferFieldType(field),
+      classifiedBy: identification ? 'llm' : 'heuristic',
+      filled: false,
+      rejected: false
+    };
+    
+    if (field.tag === 'select') {
+      result.value = field.options[0];
+      result.filled = result.value !== undefined && await this.domInteractor!.select(element, result.value);
+    } else if (field.type === 'checkbox') {
+      // Optional checkboxes (e.g. newsletter opt-ins) are left alone
+      if (!field.required && !isConsentField(field)) return result;
+      result.value = 'true';
+      result.filled = await this.domInteractor!.check(element);
+    } else if (field.type === 'radio') {
+      result.value = field.options[0];
+      result.filled = await this.domInteractor!.check(element);
+    } else {
+      result.value = generateFieldValue(field, result.fieldType, this.testData, identification?.valueToUse);
+      result.filled = await this.domInteractor!.fill(element, result.value);
+    }
+    
+    const state = await this.domInteractor!.getValidationState(element);
+    if (state && !state.valid) {
+      result.rejected = true;
+      result.validationMessage = state.message;
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Submit the detected form
+   * @returns true if the submit button was clicked or the form was submitted
+   */
+  private async submitLeadForm(form: FormDescriptor): Promise<boolean> {
+    if (form.submitSelector) {
+      return this.domInteractor!.click({ tag: 'button', selector: form.submitSelector });
+    }
+    
+    // Without a submit button, submit the way pressing Enter would, including validation
+    try {
+      await this.domInteractor!.getPage().locator(form.selector).evaluate(el => {
+        if (el instanceof HTMLFormElement) el.requestSubmit();
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to submit form:', error);
+      return false;
+    }
+  }
+  
+  /**
+   * Crawl the site and test the primary CTA and forms of every page
+   * Pages come from sitemap.xml or from following same-origin links
+   */
+  async runCrawl(url: string): Promise<TestWebsiteResponse> {
+    const onAbort = () => {
+      this.cleanup();
+    };
+    this.signal?.addEventListener('abort', onAbort, { once: true });
+    
+    try {
+      this.throwIfAborted();
+      await this.initialize();
+      
+      if (!this.llmService) {
+        throw new Error('No LLM provider is configured (see LLM_PROVIDER). Crawl mode needs one to find the primary CTA of each page.');
+      }
+      
+      this.page!.on('response', response => {
+        if (response.request().isNavigationRequest() && response.frame() === this.page?.mainFrame()) {
+          this.lastDocumentStatus = response.status();
+        }
+      });
+      
+      const { source, maxDepth, maxPages } = this.crawlOptions;
+      const origin = new URL(url).origin;
+      const start = normalizeCrawlUrl(url, url, origin) || url;
+      
+      // Step 1: Discover pages
+      this.addStep('crawl_discovery', 'running');
+      const sitemapPages = source === 'links' ? [] : await this.readSitemaps(origin, maxPages);
+      if (source === 'sitemap' && sitemapPages.length === 0) {
+        this.addError('crawl_discovery', 'No sitemap found', `No pages from ${origin} are listed in its sitemaps`);
+      }
+      const followLinks = source === 'links' || (source === 'auto' && sitemapPages.length === 0);
+      this.crawlSource = followLinks ? 'links' : 'sitemap';
+      this.updateStepStatus('crawl_discovery', 'success');
+      
+      const queue = [
+        { url: start, depth: 0 },
+        ...sitemapPages.filter(page => page !== start).map(page => ({ url: page, depth: 1 }))
+      ];
+      const seen = new Set(queue.map(item => item.url));
+      
+      this.testResultService.updateTestProgress(this.testId, 40);
+      
+      // Step 2: Test every page, breadth first
+      while (queue.length > 0 && this.crawlPages.length < maxPages) {
+        this.throwIfAborted();
+        const { url: pageUrl, depth } = queue.shift()!;
+        const { result, links } = await this.crawlPage(pageUrl, depth, followLinks && depth < maxDepth, origin);
+        this.crawlPages.push(result);
+        
+        for (const link of links) {
+          if (!seen.has(link)) {
+            seen.add(link);
+            queue.push({ url: link, depth: depth + 1 });
+          }
+        }
+        
+        // Progress is relative to the pages known so far (40-95%)
+        const expectedPages = Math.min(maxPages, this.crawlPages.length + queue.length);
+        this.testResultService.updateTestProgress(this.testId, 40 + Math.floor((this.crawlPages.length / expectedPages) * 55));
+      }
+      
+      this.testResultService.updateTestProgress(this.testId, 95);
+      
+      return this.generateCrawlResponse();
+    } catch (error) {
+      if (this.signal?.aborted) {
+        // Cancellation is recorded by whoever aborted the run
+        this.addError('cancelled', 'Test was cancelled', this.signal.reason);
+        return this.generateCrawlResponse();
+      }
+      // The failure is recorded by the caller, so the test reaches a single final status
+      this.addError('crawl', 'Crawl failed', error);
+      throw error;
+    } finally {
+      this.signal?.removeEventListener('abort', onAbort);
+      await this.cleanup();
+    }
+  }
+  
+  /**
+   * Read the pages listed in the sitemaps of a site
+   * Sitemaps declared in robots.txt are preferred over /sitemap.xml
+   */
+  private async readSitemaps(origin: string, limit: number): Promise<string[]> {
+    const fetchText = async (location: string): Promise<string | null> => {
+      try {
+        const response = await this.context!.request.get(location, { timeout: CRAWL_PAGE_TIMEOUT });
+        return response.ok() ? await response.text() : null;
+      } catch (error) {
+        console.warn(`Failed to fetch ${location}:`, error);
+        return null;
+      }
+    };
+    
+    const robots = await fetchText(`${origin}/robots.txt`);
+    const pending = robots ? parseRobotsSitemaps(robots) : [];
+    if (pending.length === 0) {
+      pending.push(`${origin}/sitemap.xml`);
+    }
+    
+    const pages = new Set<string>();
+    const visited = new Set<string>();
+    while (pending.length > 0 && visited.size < CRAWL_MAX_SITEMAPS && pages.size < limit) {
+      this.throwIfAborted();
+      const location = pending.shift()!;
+      if (visited.has(location)) continue;
+      visited.add(location);
+      
+      const xml = await fetchText(location);
+      if (!xml) continue;
+      
+      const entries = parseSitemap(xml);
+      pending.push(...entries.sitemaps);
+      for (const entry of entries.pages) {
+        const page = normalizeCrawlUrl(entry, origin, origin);
+        if (page) pages.add(page);
+        if (pages.size >= limit) break;
+      }
+    }
+    
+    return Array.from(pages);
+  }
+  
+  /**
+   * Load a page and test its primary CTA and forms
+   * @param collectLinks Whether to return the same-origin links of the page for further crawling
+   */
+  private async crawlPage(
+    url: string,
+    depth: number,
+    collectLinks: boolean,
+    origin: string
+  ): Promise<{ result: CrawlPageResult; links: string[] }> {
+    const pageStart = Date.now();
+    const stepName = `crawl: ${url}`;
+    const result: CrawlPageResult = { url, depth, forms: [], broken: false, issues: [], duration: 0 };
+    let links: string[] = [];
+    
+    this.addStep(stepName, 'running');
+    
+    try {
+      await this.restoreMainPage();
+      
+      this.lastDocumentStatus = undefined;
+      const loaded = await this.domInteractor!.navigate(url, { timeout: CRAWL_PAGE_TIMEOUT, waitUntil: 'load' });
+      result.httpStatus = this.lastDocumentStatus;
+      
+      if (!loaded) {
+        result.issues.push('Page failed to load');
+      } else if (result.httpStatus && result.httpStatus >= 400) {
+        result.issues.push(`Page returned HTTP ${result.httpStatus}`);
+      } else {
+        // Read links and forms before the CTA click navigates away
+        if (collectLinks) {
+          links = await this.collectLinks(origin);
+        }
+        
+        result.forms = await this.checkForms();
+        for (const form of result.forms) {
+          if (form.issue) result.issues.push(`${form.selector}: ${form.issue}`);
+        }
+        
+        const pageState = await this.extractPageState();
+        result.title = pageState.title;
+        if (this.options.screenshotCapture) {
+          result.screenshot = ScreenshotService.getInstance().save(pageState.screenshot);
+        }
+        
+        result.cta = await this.checkPrimaryCTA(pageState);
+        const ctaIssue = result.cta && getCTAIssue(result.cta);
+        if (ctaIssue) result.issues.push(ctaIssue);
+      }
+    } catch (error) {
+      if (this.signal?.aborted) throw error;
+      
+      result.issues.push(`Crawl failed: ${error instanceof Error ? error.message : String(error)}`);
+      this.addError(stepName, `Failed to crawl ${url}`, error);
+    }
+    
+    result.broken = result.issues.length > 0;
+    result.duration = Date.now() - pageStart;
+    this.updateStepStatus(stepName, result.broken ? 'failure' : 'success');
+    
+    return { result, links };
+  }
+  
+  /**
+   * Close any tabs opened while crawling and make the first tab active again
+   */
+  private async restoreMainPage(): Promise<void> {
+    for (const page of Array.from(this.pages.values())) {
+      if (page !== this.page) {
+        await page.close().catch(() => undefined);
+      }
+    }
+    
+    this.activePage = this.page;
+    this.domInteractor = new PlaywrightDOMInteractor(this.page!, this.signal);
+  }
+  
+  /**
+   * Get the crawlable links of the current page
+   */
+  private async collectLinks(origin: string): Promise<string[]> {
+    const hrefs = await this.domInteractor!.evaluate(() =>
+      Array.from(document.querySelectorAll('a[href]')).map(anchor => (anchor as HTMLAnchorElement).href)
+    );
+    const base = await this.domInteractor!.getPageUrl();
+    
+    const links = hrefs
+      .map(href => normalizeCrawlUrl(href, base, origin))
+      .filter((link): link is string => link !== null);
+    return Array.from(new Set(links));
+  }
+  
+  /**
+   * Inspect the visible forms of the current page
+   */
+  private async checkForms(): Promise<CrawlFormCheck[]> {
+    const forms = await this.domInteractor!.evaluate(() =>
+      Array.from(document.forms).map((form, index) => {
+        // form.elements also contains controls attached with the form="" attribute
+        const controls = Array.from(form.elements);
+        const fields = controls.filter(control =>
+          ((control instanceof HTMLInputElement && !['hidden', 'submit', 'button', 'reset', 'image'].includes(control.type)) ||
+            control instanceof HTMLSelectElement ||
+            control instanceof HTMLTextAreaElement) &&
+          control.getClientRects().length > 0
+        ) as Array<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+        const hasSubmit = controls.some(control =>
+          (control instanceof HTMLButtonElement && control.type === 'submit') ||
+          (control instanceof HTMLInputElement && (control.type === 'submit' || control.type === 'image'))
+        );
+        
+        // Attributes are read directly because fields named "id" or "name" shadow the form properties
+        const id = form.getAttribute('id');
+        const name = form.getAttribute('name');
+        return {
+          selector: id ? `form#${id}` : name ? `form[name="${name}"]` : `form >> nth=${index}`,
+          fieldCount: fields.length,
+          disabledCount: fields.filter(field => field.disabled).length,
+          hasSubmit,
+          action: form.getAttribute('action') || undefined
+        };
+      })
+    );
+    
+    return forms.map(form => ({ ...form, issue: getFormIssue(form) }));
+  }
+  
+  /**
+   * Ask the LLM for the primary CTA of the page, click it and see what happens
+   * @returns The check, or undefined if the page has no recognizable CTA
+   */
+  private async checkPrimaryCTA(pageState: PageState): Promise<CrawlCTACheck | undefined> {
+    const candidates = pageState.elements.filter(element => element.visible);
+    if (candidates.length === 0) return undefined;
+    
+    const selection = await this.llmService!.getElementToClick(pageState, CRAWL_CTA_INSTRUCTION);
+    const element = candidates[Number(selection.elementId) - 1];
+    if (!element || selection.confidence < CRAWL_CTA_MIN_CONFIDENCE) return undefined;
+    
+    const cta: CrawlCTACheck = {
+      element,
+      confidence: selection.confidence,
+      reasoning: selection.reasoning,
+      outcome: 'no-effect'
+    };
+    
+    const page = this.page!;
+    const beforeUrl = page.url();
+    const beforePages = this.pages.size;
+    
+    this.lastDocumentStatus = undefined;
+    const clicked = await this.domInteractor!.click(this.convertToInteractableElement(element));
+    if (!clicked) {
+      cta.outcome = 'click-failed';
+      return cta;
+    }
+    
+    // Give navigation, new tabs and client-side rendering a moment to happen
+    await page.waitForLoadState('load', { timeout: CRAWL_PAGE_TIMEOUT }).catch(() => undefined);
+    await this.delay(1000);
+    
+    if (this.pages.size > beforePages) {
+      cta.outcome = 'new-tab';
+      cta.destination = this.activePage?.url();
+    } else if (page.url() !== beforeUrl) {
+      cta.outcome = 'navigated';
+      cta.destination = page.url();
+      cta.destinationStatus = this.lastDocumentStatus;
+    } else {
+      // Same settings as the page state screenshot so unchanged pages compare equal
+      const afterScreenshot = await this.domInteractor!.takeScreenshot();
+      cta.outcome = areScreenshotsIdentical(pageState.screenshot, afterScreenshot) ? 'no-effect' : 'page-changed';
+    }
+    
+    return cta;
+  }
+  
+  /**
+   * Run a custom step, replaying its compiled actions when available
+   * Falls back to LLM guidance if a replayed selector no longer resolves
+   */
+  private async runCustomStep(instruction: string, stepIndex: number): Promise<CustomStepResult> {
+    const compiledStep = this.replayScript?.steps[stepIndex];
+    
+    if (!compiledStep || compiledStep.instruction !== instruction) {
+      if (!this.llmService) {
+        return {
+          instruction,
+          success: false,
+          error: 'The compiled script has no actions for this step and no LLM provider is configured',
+          status: "failure"
+        };
+      }
+      return this.executeCustomStep(instruction);
+    }
+    
+    const replay = await this.replayCustomStep(compiledStep);
+    if (replay.result) {
+      return replay.result;
+    }
+    
+    console.warn(`♻️ Replay of "${instruction}" could not resolve ${replay.unresolved}, falling back to LLM guidance`);
+    
+    if (!this.llmService) {
+      return {
+        instruction,
+        success: false,
+        error: `Replayed selector ${replay.unresolved} no longer resolves and no LLM provider is configured`,
+        status: "failure",
+        actions: replay.actions,
+        replay: "healed"
+      };
+    }
+    
+    const healed = await this.executeCustomStep(instruction);
+    return {
+      ...healed,
+      actionCount: replay.actions.length + (healed.actionCount || 0),
+      actions: [...replay.actions, ...(healed.actions || [])],
+      replay: "healed"
+    };
+  }
+  
+  /**
+   * Replay the compiled actions of a step directly through the DOM interactor
+   * @returns The step result, or the selector that no longer resolves
+   */
+  private async replayCustomStep(compiledStep: CompiledStep): Promise<{
+    result?: CustomStepResult;
+    unresolved?: string;
+    actions: RecordedAction[];
+  }> {
+    const { instruction } = compiledStep;
+    const stepStartTime = Date.now();
+    const actions: RecordedAction[] = [];
+    
+    if (compiledStep.actions.length === 0) {
+      return { unresolved: '(no recorded actions)', actions };
+    }
+    
+    for (const recorded of compiledStep.actions) {
+      this.throwIfAborted();
+      
+      if (!this.domInteractor) {
+        throw new Error('DOM interactor not initialized');
+      }
+      
+      const element: InteractableElement = {
+        ...(recorded.targetElement ? this.convertToInteractableElement(recorded.targetElement) : {}),
+        selector: recorded.selector
+      };
+      
+      // Anything that no longer resolves is handed to the LLM to heal
+      if (recorded.action === 'switchTab') {
+        if (!recorded.value || !this.pages.has(recorded.value)) {
+          return { unresolved: `tab ${recorded.value}`, actions };
+        }
+      } else if (recorded.selector) {
+        const resolves = await this.domInteractor.waitForElement(element, { timeout: REPLAY_RESOLVE_TIMEOUT, state: 'attached' });
+        if (!resolves) {
+          return { unresolved: recorded.selector, actions };
+        }
+      }
+      
+      this.testResultService.recordDecision(this.testId, this.customStepsResults.length, instruction, {
+        action: recorded.action,
+        targetElement: recorded.targetElement,
+        value: recorded.value,
+        confidence: 100,
+        reasoning: `Replayed ${recorded.action}${recorded.selector ? ` on ${recorded.selector}` : ''}`
+      });
+      
+      let success = false;
+      switch (recorded.action) {
+        case 'switchTab':
+          this.activePage = this.pages.get(recorded.value!)!;
+          this.domInteractor = new PlaywrightDOMInteractor(this.activePage, this.signal);
+          success = true;
+          break;
+        case 'click':
+          success = await this.domInteractor.click(element);
+          // Give time for a potential new tab or navigation
+          if (success) await this.delay(1000);
+          break;
+        case 'type':
+          success = await this.domInteractor.fill(element, recorded.value || '');
+          break;
+        case 'select':
+          success = await this.domInteractor.select(element, recorded.value || '');
+          break;
+        case 'submit':
+          success = await this.domInteractor.submitForm(recorded.selector ? element : undefined);
+          break;
+        case 'wait':
+          if (recorded.selector) {
+            success = await this.domInteractor.waitForElement(element);
+          } else {
+            await this.delay(2000);
+            success = true;
+          }
+          break;
+        case 'verify':
+          success = await this.domInteractor.exists(element);
+          break;
+        case 'hover':
+          success = await this.domInteractor.hover(element);
+          break;
+        case 'check':
+          success = await this.domInteractor.check(element, recorded.value !== 'false');
+          break;
+        case 'press':
+          success = await this.domInteractor.pressKey(recorded.value || '');
+          break;
+      }
+      
+      actions.push({ ...recorded, success });
+      
+      if (!success) {
+        const pageState = await this.extractPageState();
+        return {
+          result: {
+            instruction,
+            success: false,
+            error: `Replayed ${recorded.action}${recorded.selector ? ` on ${recorded.selector}` : ''} failed`,
+            screenshot: pageState.screenshot,
+            status: "failure",
+            actionCount: actions.length,
+            duration: Date.now() - stepStartTime,
+            actions,
+            replay: "replayed"
+          },
+          actions
+        };
+      }
+      
+      // Let the page settle before the next action
+      await this.delay(500);
+    }
+    
+    const finalState = await this.extractPageState(true);
+    return {
+      result: {
+        instruction,
+        success: true,
+        screenshot: finalState.screenshot,
+        status: "success",
+        actionCount: actions.length,
+        duration: Date.now() - stepStartTime,
+        actions,
+        replay: "replayed"
+      },
+      actions
+    };
+  }
+  
   /**
    * Execute a single custom step using LLM guidance
    */
@@ -190,6 +1371,7 @@ export class WebSiteTest {
     try {
       // Initialize the step state
       const previousActions: LLMDecision[] = [];
+      const recordedActions: RecordedAction[] = [];
       let isStepComplete = false;
       let finalSuccess = false;
       let finalError: string | undefined = undefined;
@@ -197,6 +1379,13 @@ export class WebSiteTest {
       let finalDecision: LLMDecision | undefined = undefined;
       let visionAnalysis = undefined;
       let lastModificationVisionAnalysis = undefined;  // Track the last modification action's vision analysis
+      let limitReached: CustomStepResult['limitReached'] = undefined;
+      
+      // Budget tracking for this step
+      const stepStartTime = Date.now();
+      const startTokenUsage = this.llmService!.getTokenUsage();
+      const getStepTokenUsage = (): TokenUsage => diffTokenUsage(this.llmService!.getTokenUsage(), startTokenUsage);
+      const maxActions = this.options.maxStepActions || 10;
       
       // Capture the initial state before any actions are performed
       const initialPageState = await this.extractPageState();
@@ -205,6 +1394,26 @@ export class WebSiteTest {
       
       // Continue executing actions until the LLM indicates the step is complete
       while (!isStepComplete) {
+        this.throwIfAborted();
+        
+        // Stop before asking the LLM again if the step has used up its time or token budget
+        const elapsed = Date.now() - stepStartTime;
+        const tokensUsed = getStepTokenUsage().totalTokens;
+        if (this.options.maxStepDuration && elapsed >= this.options.maxStepDuration) {
+          limitReached = 'duration';
+          finalError = `Step exceeded its time limit of ${this.options.maxStepDuration}ms after ${previousActions.length} actions` +
+            (finalError ? ` (last error: ${finalError})` : '');
+          finalSuccess = false;
+          break;
+        }
+        if (this.options.maxStepTokens && tokensUsed >= this.options.maxStepTokens) {
+          limitReached = 'tokens';
+          finalError = `Step exceeded its token limit of ${this.options.maxStepTokens} (used ${tokensUsed}) after ${previousActions.length} actions` +
+            (finalError ? ` (last error: ${finalError})` : '');
+          finalSuccess = false;
+          break;
+        }
+        
         // Extract current page state for LLM context
         const pageState = await this.extractPageState();
         
@@ -218,16 +1427,26 @@ export class WebSiteTest {
         const decision = await this.llmService!.determineNextAction(
           pageState,
           instruction,
-          previousActions
+          previousActions,
+          this.testData.getAll()
         );
         
+        // The LLM call swallows errors, so check again before acting on its answer
+        this.throwIfAborted();
+        
         // Store this decision for the feedback loop
         previousActions.push(decision);
         finalDecision = decision;
         
+        // Stream the decision to live subscribers (results are pushed once the step ends)
+        this.testResultService.recordDecision(this.testId, this.customStepsResults.length, instruction, decision);
+        
         // Convert PageElement to InteractableElement if needed
         const targetElement = decision.targetElement ? this.convertToInteractableElement(decision.targetElement) : undefined;
         
+        // Remember the selector so the action can be replayed without the LLM
+        const selector = targetElement ? PlaywrightDOMInteractor.buildSelector(targetElement) : undefined;
+        
         // Execute the action based on LLM decision using the DOM interactor
         let actionSuccess = false;
         let actionError = undefined;
@@ -242,7 +1461,7 @@ export class WebSiteTest {
             const tabId = decision.value;
             if (this.pages.has(tabId)) {
               this.activePage = this.pages.get(tabId)!;
-              this.domInteractor = new PlaywrightDOMInteractor(this.activePage);
+              this.domInteractor = new PlaywrightDOMInteractor(this.activePage, this.signal);
               actionSuccess = true;
             } else {
               actionError = `Tab with ID ${tabId} not found`;
@@ -250,7 +1469,7 @@ export class WebSiteTest {
           } else {
             // Capture a fresh "before" screenshot immediately before the action
             // This ensures we have the most current state of the page
-            await new Promise(resolve => setTimeout(resolve, 1000)); // Brief delay to ensure stability
+            await this.delay(1000); // Brief delay to ensure stability
             const freshBeforePageState = await this.extractPageState();
             beforeScreenshot = freshBeforePageState.screenshot;
             console.log(`🔍 Captured BEFORE screenshot just before ${decision.action} action`);
@@ -265,7 +1484,7 @@ export class WebSiteTest {
                   // This case handles clicks that might navigate or open new tabs
                   if (actionSuccess) {
                     // Give time for a potential new tab to open
-                    await new Promise(resolve => setTimeout(resolve, 1000));
+                    await this.delay(1000);
                   }
                 } else {
                   actionError = 'No target element provided for click action';
@@ -374,7 +1593,7 @@ export class WebSiteTest {
           
           // Capture the "after" screenshot for Vision API analysis
           // Wait more time for any animations, redirects or DOM changes to complete
-          await new Promise(resolve => setTimeout(resolve, 3000)); // Increased from 2000ms to 3000ms
+          await this.delay(3000); // Increased from 2000ms to 3000ms
           
           // Force a full page refresh of the screenshot to ensure it's completely updated
           const afterPageState = await this.extractPageState(true); // Pass true to force a fresh screenshot
@@ -386,7 +1605,7 @@ export class WebSiteTest {
           
           // Only use Vision API to analyze screenshots for actions that modify the UI
           // Skip visual analysis for read-only actions like 'verify'
-          if (this.llmService && beforeScreenshot && afterScreenshot && isModificationAction(decision.action)) {
+          if (this.llmService?.supportsVision() && beforeScreenshot && afterScreenshot && isModificationAction(decision.action)) {
             try {
               // Validate both screenshots have content before sending to Vision API
               if (beforeScreenshot.length > 100 && afterScreenshot.length > 100) {
@@ -400,7 +1619,7 @@ export class WebSiteTest {
                   console.warn('⚠️ WARNING: Before and After screenshots are identical, attempting to recapture after screenshot');
                   
                   // Wait a bit longer and try again
-                  await new Promise(resolve => setTimeout(resolve, 3000));
+                  await this.delay(3000);
                   const freshAfterPageState = await this.extractPageState();
                   afterScreenshot = freshAfterPageState.screenshot;
                   
@@ -445,6 +1664,14 @@ export class WebSiteTest {
             }
           }
           
+          recordedActions.push({
+            action: decision.action,
+            selector,
+            value: decision.value,
+            targetElement: decision.targetElement,
+            success: actionSuccess
+          });
+          
           // Check if the LLM explicitly indicates the step is complete
           if (decision.isComplete) {
             isStepComplete = true;
@@ -482,19 +1709,22 @@ export class WebSiteTest {
             }
           }
           
-          // If we've tried too many actions, consider the step failed
-          if (previousActions.length >= 10) {
-            isStepComplete = true;
-            finalSuccess = false;
-            finalError = finalError || 'Too many actions attempted without completing the step';
-          }
-          
           // Capture final screenshot
           finalScreenshot = afterScreenshot;
           
         } catch (e) {
+          if (this.signal?.aborted) throw e;
+          
           actionError = e instanceof Error ? e.message : String(e);
           actionSuccess = false;
+          finalError = actionError;
+          recordedActions.push({
+            action: decision.action,
+            selector,
+            value: decision.value,
+            targetElement: decision.targetElement,
+            success: false
+          });
           
           // If exception occurred, still add to previous actions to inform LLM
           previousActions[previousActions.length - 1] = {
@@ -510,12 +1740,20 @@ export class WebSiteTest {
           if (consecutiveErrors) {
             isStepComplete = true;
             finalSuccess = false;
-            finalError = actionError;
           }
         }
         
+        // If we've tried too many actions, consider the step failed, whether the last one threw or not
+        if (!isStepComplete && previousActions.length >= maxActions) {
+          isStepComplete = true;
+          finalSuccess = false;
+          limitReached = 'actions';
+          finalError = `Step exceeded its limit of ${maxActions} actions without completing` +
+            (finalError ? ` (last error: ${finalError})` : '');
+        }
+        
         // Add a short delay between actions to avoid overwhelming the page
-        await new Promise(resolve => setTimeout(resolve, 500));
+        await this.delay(500);
       }
       
       // Return the final result, prioritizing the last modification action's vision analysis
@@ -527,9 +1765,16 @@ export class WebSiteTest {
         llmDecision: finalDecision,
         // Use the last modification action's vision analysis if available
         visionAnalysis: lastModificationVisionAnalysis || visionAnalysis,
-        status: finalSuccess ? "success" : "failure"
+        status: finalSuccess ? "success" : "failure",
+        actionCount: previousActions.length,
+        duration: Date.now() - stepStartTime,
+        tokenUsage: getStepTokenUsage(),
+        limitReached,
+        actions: recordedActions
       };
     } catch (error) {
+      if (this.signal?.aborted) throw error;
+      
       return {
         instruction,
         success: false,
@@ -572,7 +1817,7 @@ export class WebSiteTest {
     // When forceFresh is true, we'll take additional measures to ensure a fresh screenshot
     if (forceFresh) {
       // Wait briefly for any animations or transitions to complete
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await this.delay(500);
       
       // For some pages, scrolling slightly can force a redraw
       try {
@@ -653,7 +1898,7 @@ export class WebSiteTest {
       // Find the step and add the screenshot
       const step = this.steps.find(s => s.name === stepName);
       if (step) {
-        step.screenshot = screenshot;
+        step.screenshot = ScreenshotService.getInstance().save(screenshot);
       }
     } catch (error) {
       // Just log the error and continue - screenshots are non-critical
@@ -686,7 +1931,7 @@ export class WebSiteTest {
   /**
    * Add an error
    */
-  private addError(step: string, message: string, error: unknown): void {
+  private addError(step: string, message: string, error: unknown, failedRequests?: NetworkEntry[]): void {
     let details = '';
     
     if (error instanceof Error) {
@@ -700,7 +1945,8 @@ export class WebSiteTest {
     this.errors.push({
       step,
       message,
-      details
+      details,
+      failedRequests
     });
   }
 
@@ -711,8 +1957,19 @@ export class WebSiteTest {
     const endTime = Date.now();
     const totalDuration = endTime - this.startTime;
     
+    // Values the LLM typed count as used when they came from the data profile
+    for (const step of this.customStepsResults) {
+      for (const action of step.actions || []) {
+        if ((action.action === 'type' || action.action === 'select') && action.value) {
+          this.testData.markUsed(action.value);
+        }
+      }
+    }
+    
     return {
-      success: this.customStepsResults.every(step => step.success),
+      success: this.customStepsResults.every(step => step.success) &&
+        (!this.formFill || this.formFill.success) &&
+        (!this.emailVerification || this.emailVerification.success),
       testId: this.testId,
       url: this.url,
       primaryCTAFound: ctaFound,
@@ -720,7 +1977,43 @@ export class WebSiteTest {
       steps: this.steps,
       customStepsResults: this.customStepsResults,
       totalDuration,
-      errors: this.errors
+      errors: this.errors,
+      tokenUsage: this.llmService?.getTokenUsage(),
+      replayScriptId: this.replayScript?.id,
+      formFill: this.formFill || undefined,
+      testData: this.testData.getRecord(),
+      emailVerification: this.emailVerification || undefined,
+      console: this.consoleLog,
+      artifacts: this.artifacts,
+      environment: this.environment || undefined
+    };
+  }
+
+  /**
+   * Generate the response of a crawl
+   */
+  private generateCrawlResponse(): TestWebsiteResponse {
+    const pagesWithCTA = this.crawlPages.filter(page => page.cta);
+    
+    return {
+      success: this.crawlPages.length > 0 && this.crawlPages.every(page => !page.broken),
+      testId: this.testId,
+      url: this.url,
+      primaryCTAFound: pagesWithCTA.length > 0,
+      interactionSuccessful: pagesWithCTA.length > 0 && pagesWithCTA.every(page => !getCTAIssue(page.cta!)),
+      steps: this.steps,
+      totalDuration: Date.now() - this.startTime,
+      errors: this.errors,
+      tokenUsage: this.llmService?.getTokenUsage(),
+      crawl: {
+        source: this.crawlSource,
+        pagesVisited: this.crawlPages.length,
+        brokenPages: this.crawlPages.filter(page => page.broken).length,
+        pages: this.crawlPages
+      },
+      console: this.consoleLog,
+      artifacts: this.artifacts,
+      environment: this.environment || undefined
     };
   }
 
@@ -742,22 +2035,91 @@ export class WebSiteTest {
     };
   }
 
+  /**
+   * Record an artifact of the run; the file itself is written during cleanup
+   */
+  private addArtifact(name: string, type: TestArtifact['type'], pageId?: string): void {
+    this.artifacts.push({ name, type, contentType: getArtifactContentType(name), pageId });
+  }
+  
+  /**
+   * Save the recorded videos under their per-page names
+   * Videos are only complete once their page or context has closed
+   */
+  private async saveVideos(videos: { name: string; video: Video }[]): Promise<void> {
+    const artifactDir = getArtifactDir(this.testId);
+    
+    for (const { name, video } of videos) {
+      try {
+        await video.saveAs(path.join(artifactDir, name));
+        await video.delete();
+      } catch (error) {
+        console.error(`Failed to save video ${name}:`, error);
+      }
+    }
+    
+    await fs.promises.rm(path.join(artifactDir, VIDEO_RECORDING_DIR), { recursive: true, force: true });
+  }
+
   /**
    * Clean up resources
+   * Repeated calls (e.g. abort + finally) wait for the shutdown already in progress,
+   * so the run only ends once the trace, videos and browser are done
+   */
+  private cleanup(): Promise<void> {
+    // Chained rather than reused, so a browser launched while an abort was shutting down is still closed
+    this.cleanupPromise = (this.cleanupPromise || Promise.resolve()).then(() => this.shutdown());
+    return this.cleanupPromise;
+  }
+
+  /**
+   * Save the artifacts of the run and close the browser
    */
-  private async cleanup(): Promise<void> {
+  private async shutdown(): Promise<void> {
+    // Detach resources first so a later shutdown only closes what was opened since
+    const context = this.context;
+    const browser = this.browser;
+    const videos = this.videos;
+    this.context = null;
+    this.browser = null;
+    this.videos = [];
+    
+    // The trace has to be written before its context closes
+    if (context && this.options.recordTrace) {
+      try {
+        await context.tracing.stop({ path: path.join(getArtifactDir(this.testId), TRACE_ARTIFACT) });
+      } catch (error) {
+        console.error('Failed to save trace:', error);
+      }
+    }
+    
     try {
       this.pages.clear();
       this.activePage = null;
       this.page = null;
-      if (this.context) await this.context.close();
-      if (this.browser) await this.browser.close();
+      if (context) await context.close();
+      if (browser) await browser.close();
     } catch (error) {
       console.error('Error during cleanup:', error);
     }
+    
+    if (videos.length > 0) {
+      await this.saveVideos(videos);
+    }
   }
 } 
 
+/**
+ * Helper function to compute the tokens used between two usage snapshots
+ */
+function diffTokenUsage(current: TokenUsage, start: TokenUsage): TokenUsage {
+  return {
+    promptTokens: current.promptTokens - start.promptTokens,
+    completionTokens: current.completionTokens - start.completionTokens,
+    totalTokens: current.totalTokens - start.totalTokens
+  };
+}
+
 /**
  * Helper function to check if an action is a UI modification action that should trigger visual analysis
  */
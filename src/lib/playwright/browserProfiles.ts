@@ -0,0 +1,104 @@
+import { BrowserContextOptions, BrowserType, chromium, devices, firefox, webkit } from 'playwright';
+import { BrowserName, BrowserProfile, TestEnvironment, TestWebsiteOptions, Viewport } from '../types';
+import { REDACTED } from '../redaction';
+
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+
+const DEFAULT_VIEWPORT: Viewport = { width: 1280, height: 720 };
+
+// Devices whose user agent a desktop run sends with the "browser" preset
+const DESKTOP_DEVICES: Record<BrowserName, string> = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari'
+};
+
+/**
+ * Default user agent; appended to device user agents so sites can still tell the runner apart from real visitors
+ */
+export const BOT_USER_AGENT = 'RevylBot/1.0 (+https://revyl.io/bot)';
+
+/**
+ * Browser type and context options resolved from the options of a run
+ */
+export interface ResolvedBrowserProfile {
+  browser: BrowserName;
+  browserType: BrowserType;
+  contextOptions: BrowserContextOptions;
+  viewport: Viewport;
+  isMobile: boolean;
+  userAgentPreset: TestEnvironment['userAgentPreset'];
+}
+
+/**
+ * Whether a name is one of Playwright's device descriptors
+ */
+export function isKnownDevice(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(devices, name);
+}
+
+/**
+ * Resolve the browser, emulated device and identity of a run
+ * Devices bring their viewport, user agent, scale factor and touch support; the
+ * browser defaults to the one the device is meant for (e.g. webkit for iPhones)
+ */
+export function resolveBrowserProfile(options: TestWebsiteOptions): ResolvedBrowserProfile {
+  const descriptor = options.device ? devices[options.device] : undefined;
+  if (options.device && !descriptor) {
+    throw new Error(`Unknown device "${options.device}"`);
+  }
+
+  const browser = options.browser || descriptor?.defaultBrowserType || 'chromium';
+  const viewport = options.viewport || descriptor?.viewport || DEFAULT_VIEWPORT;
+  // Firefox does not support mobile emulation, so a phone runs as a small touch screen there
+  const isMobile = browser !== 'firefox' && Boolean(descriptor?.isMobile);
+
+  const identity = options.identity || {};
+  // Headless browsers announce themselves (e.g. "HeadlessChrome"), so the preset uses a desktop device's user agent
+  const browserUserAgent = descriptor?.userAgent || devices[DESKTOP_DEVICES[browser]].userAgent;
+  const userAgentPreset = identity.userAgent ? 'custom' : identity.userAgentPreset || 'bot';
+  const userAgent = identity.userAgent
+    || (userAgentPreset === 'browser' ? browserUserAgent : descriptor ? `${descriptor.userAgent} ${BOT_USER_AGENT}` : BOT_USER_AGENT);
+
+  // A location can only be read by pages that are allowed to
+  const permissions = identity.geolocation && !identity.permissions?.includes('geolocation')
+    ? [...(identity.permissions || []), 'geolocation']
+    : identity.permissions;
+
+  const contextOptions: BrowserContextOptions = {
+    viewport,
+    userAgent,
+    ...(descriptor ? {
+      deviceScaleFactor: descriptor.deviceScaleFactor,
+      hasTouch: descriptor.hasTouch,
+      isMobile
+    } : {}),
+    ...(options.locale ? { locale: options.locale } : {}),
+    ...(options.timezoneId ? { timezoneId: options.timezoneId } : {}),
+    ...(identity.extraHeaders ? { extraHTTPHeaders: identity.extraHeaders } : {}),
+    ...(identity.geolocation ? { geolocation: identity.geolocation } : {}),
+    ...(permissions?.length ? { permissions } : {})
+  };
+
+  return { browser, browserType: BROWSER_TYPES[browser], contextOptions, viewport, isMobile, userAgentPreset };
+}
+
+/**
+ * The extra headers of a run as recorded in its environment: names only, values masked
+ */
+export function maskHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+  return headers && Object.fromEntries(Object.keys(headers).map(name => [name, REDACTED]));
+}
+
+/**
+ * Label of a browser profile in matrix reports
+ */
+export function getProfileLabel(profile: BrowserProfile): string {
+  if (profile.name) return profile.name;
+
+  const parts = [profile.device || profile.browser || 'chromium'];
+  if (profile.device && profile.browser) parts.push(`(${profile.browser})`);
+  if (profile.viewport) parts.push(`${profile.viewport.width}x${profile.viewport.height}`);
+  if (profile.locale) parts.push(profile.locale);
+  return parts.join(' ');
+}
@@ -0,0 +1,192 @@
+import { FormFieldIdentification, PageElement } from '../types';
+import { TestDataGenerator } from './TestDataGenerator';
+
+/**
+ * A fillable field of the detected form
+ * `selector` points at a data attribute added while detecting the form
+ */
+export interface FormFieldDescriptor {
+  selector: string;
+  tag: string;
+  type: string;
+  id?: string;
+  name?: string;
+  label: string;
+  placeholder?: string;
+  required: boolean;
+  // Selectable values of a <select>, or the value of a radio button
+  options: string[];
+}
+
+export interface FormDescriptor {
+  selector: string;
+  submitSelector?: string;
+  fields: FormFieldDescriptor[];
+}
+
+/**
+ * Find the lead form on the page and describe its fields
+ * Runs in the browser, so it must not reference anything outside its own body
+ * @param formSelector Only consider elements matching this selector
+ */
+export function detectLeadForm(formSelector?: string): FormDescriptor | null {
+  const candidates = formSelector
+    ? Array.from(document.querySelectorAll(formSelector))
+    : Array.from(document.forms);
+
+  const isField = (control: Element) =>
+    (control instanceof HTMLInputElement && !['hidden', 'submit', 'button', 'reset', 'image', 'file'].includes(control.type)) ||
+    control instanceof HTMLSelectElement ||
+    control instanceof HTMLTextAreaElement;
+  const isUsable = (control: Element) =>
+    control.getClientRects().length > 0 && !(control as HTMLInputElement).disabled;
+  const getControls = (form: Element) => form instanceof HTMLFormElement
+    ? Array.from(form.elements)
+    : Array.from(form.querySelectorAll('input, select, textarea, button'));
+
+  // The lead form is the one with the most fields the user can fill
+  let best: { form: Element; controls: Element[]; fields: Element[] } | null = null;
+  for (const form of candidates) {
+    const controls = getControls(form);
+    const fields = controls.filter(control => isField(control) && isUsable(control));
+    if (!best || fields.length > best.fields.length) {
+      best = { form, controls, fields };
+    }
+  }
+  if (!best || best.fields.length === 0) return null;
+
+  best.form.setAttribute('data-autofill-form', '');
+
+  const seenRadioGroups = new Set<string>();
+  const fields: FormFieldDescriptor[] = [];
+  best.fields.forEach((element, index) => {
+    const field = element as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+    const type = field instanceof HTMLInputElement ? field.type : field.tagName.toLowerCase();
+
+    // Only the first radio button of each group is filled
+    if (type === 'radio') {
+      if (seenRadioGroups.has(field.name)) return;
+      seenRadioGroups.add(field.name);
+    }
+
+    const labelText = field.labels?.[0]?.textContent || field.getAttribute('aria-label') || '';
+    field.setAttribute('data-autofill-field', String(index));
+
+    fields.push({
+      selector: `[data-autofill-field="${index}"]`,
+      tag: field.tagName.toLowerCase(),
+      type,
+      id: field.getAttribute('id') || undefined,
+      name: field.getAttribute('name') || undefined,
+      label: labelText.replace(/\s+/g, ' ').trim() || field.getAttribute('placeholder') || field.getAttribute('name') || type,
+      placeholder: field.getAttribute('placeholder') || undefined,
+      required: field.required,
+      options: field instanceof HTMLSelectElement
+        ? Array.from(field.options).filter(option => option.value && !option.disabled).map(option => option.value)
+        : type === 'radio' ? [field.value] : []
+    });
+  });
+
+  const submit = best.controls.find(control =>
+    ((control instanceof HTMLButtonElement && control.type === 'submit') ||
+      (control instanceof HTMLInputElement && (control.type === 'submit' || control.type === 'image'))) &&
+    isUsable(control)
+  );
+  submit?.setAttribute('data-autofill-submit', '');
+
+  return {
+    selector: '[data-autofill-form]',
+    submitSelector: submit ? '[data-autofill-submit]' : undefined,
+    fields
+  };
+}
+
+/**
+ * Describe a field the way page elements are described to the LLM
+ */
+export function fieldToPageElement(field: FormFieldDescriptor): PageElement {
+  return {
+    tag: field.tag,
+    type: field.type,
+    id: field.id,
+    name: field.name,
+    placeholder: field.placeholder,
+    text: field.label,
+    classes: [],
+    visible: true,
+    rect: { x: 0, y: 0, width: 0, height: 0 }
+  };
+}
+
+/**
+ * Classify a field from its type, name and label when the LLM did not
+ */
+export function inferFieldType(field: FormFieldDescriptor): FormFieldIdentification['fieldType'] {
+  const text = [field.type, field.name, field.id, field.label, field.placeholder].join(' ').toLowerCase();
+
+  if (field.type === 'email' || /e-?mail/.test(text)) return 'email';
+  if (field.type === 'tel' || /phone|mobile|\btel\b/.test(text)) return 'phone';
+  // Before "name" so "Company name" is a company
+  if (/company|organi[sz]ation|business/.test(text)) return 'company';
+  if (/job|title|role|position/.test(text)) return 'job-title';
+  if (field.tag === 'textarea' || /message|comment|question|details/.test(text)) return 'message';
+  if (/name/.test(text)) return 'name';
+  return 'other';
+}
+
+/**
+ * Whether an optional checkbox should still be ticked, e.g. "I agree to the terms"
+ */
+export function isConsentField(field: FormFieldDescriptor): boolean {
+  return /agree|accept|terms|consent|privacy/i.test(`${field.label} ${field.name || ''}`);
+}
+
+/**
+ * Generate the value to type into a text-like field
+ * @param suggestion The value suggested by the LLM, used for fields the profile has no data for
+ */
+export function generateFieldValue(
+  field: FormFieldDescriptor,
+  fieldType: FormFieldIdentification['fieldType'],
+  testData: TestDataGenerator,
+  suggestion?: string
+): string {
+  const text = `${field.label} ${field.name || ''} ${field.id || ''}`.toLowerCase();
+
+  switch (fieldType) {
+    case 'name':
+      if (/first|given/.test(text)) return testData.get('firstName');
+      if (/last|surname|family/.test(text)) return testData.get('lastName');
+      return testData.get('fullName');
+    case 'email':
+      return testData.get('email');
+    case 'phone':
+      return testData.get('phone');
+    case 'company':
+      return testData.get('company');
+    case 'job-title':
+      return testData.get('jobTitle');
+    case 'message':
+      return testData.get('message');
+  }
+
+  // Address fields are classified as "other"
+  if (/zip|post(al)?[\s_-]?code/.test(text)) return testData.get('postalCode');
+  if (/city|town/.test(text)) return testData.get('city');
+  if (/country/.test(text)) return testData.get('country');
+  if (/address|street/.test(text)) return testData.get('street');
+
+  if (suggestion) return suggestion;
+
+  switch (field.type) {
+    case 'number':
+    case 'range':
+      return '1';
+    case 'url':
+      return 'https://example.com';
+    case 'date':
+      return new Date().toISOString().slice(0, 10);
+    default:
+      return 'Test';
+  }
+}
@@ -0,0 +1,70 @@
+import { BrowserContext } from 'playwright';
+import { LoginRecipe, LoginRecipeStep, StorageState } from '../types';
+import { PlaywrightDOMInteractor } from '../interactions/PlaywrightDOMInteractor';
+
+// How long a waitFor step or the success check may take
+const LOGIN_WAIT_TIMEOUT = 15000;
+
+/**
+ * Describe a step for error messages without its value, which may be a secret
+ */
+function describeStep(step: LoginRecipeStep, index: number): string {
+  return `Login step ${index + 1} (${step.action}${step.selector ? ` ${step.selector}` : ''})`;
+}
+
+/**
+ * Run one step of a recipe
+ * @returns false if the step could not be performed
+ */
+async function runStep(interactor: PlaywrightDOMInteractor, step: LoginRecipeStep, loginUrl: string): Promise<boolean> {
+  switch (step.action) {
+    case 'goto':
+      return interactor.navigate(new URL(step.value || '', loginUrl).href);
+    case 'fill':
+      // Secret placeholders are resolved by the interactor
+      return interactor.fill({ selector: step.selector }, step.value || '');
+    case 'click':
+      return interactor.click({ selector: step.selector });
+    case 'press':
+      return interactor.pressKey(step.value || 'Enter');
+    case 'waitFor':
+      return interactor.waitForElement({ selector: step.selector }, { timeout: LOGIN_WAIT_TIMEOUT });
+  }
+}
+
+/**
+ * Log in with a recipe and return the resulting session
+ * The recipe runs without the LLM in the given context, which should be a
+ * throwaway context so credentials never reach traces, videos or the network log
+ * @throws If a step fails or the success check does not pass
+ */
+export async function runLoginRecipe(context: BrowserContext, recipe: LoginRecipe, signal?: AbortSignal): Promise<StorageState> {
+  const page = await context.newPage();
+  const interactor = new PlaywrightDOMInteractor(page, signal);
+
+  if (!await interactor.navigate(recipe.loginUrl)) {
+    throw new Error(`Login page ${recipe.loginUrl} could not be loaded`);
+  }
+
+  for (const [index, step] of recipe.steps.entries()) {
+    if (!await runStep(interactor, step, recipe.loginUrl)) {
+      throw new Error(`${describeStep(step, index)} failed`);
+    }
+  }
+
+  try {
+    if (recipe.successSelector) {
+      await page.waitForSelector(recipe.successSelector, { state: 'visible', timeout: LOGIN_WAIT_TIMEOUT });
+    }
+    if (recipe.successUrl) {
+      await page.waitForURL(url => url.href.includes(recipe.successUrl!), { timeout: LOGIN_WAIT_TIMEOUT });
+    }
+  } catch {
+    signal?.throwIfAborted();
+    throw new Error(`Login with recipe ${recipe.name} did not succeed (success check failed on ${page.url()})`);
+  }
+
+  // Let the site finish writing its session before it is saved
+  await page.waitForLoadState('networkidle', { timeout: LOGIN_WAIT_TIMEOUT }).catch(() => {});
+  return await context.storageState() as StorageState;
+}
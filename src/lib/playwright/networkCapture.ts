@@ -0,0 +1,71 @@
+import { NetworkAssertion, NetworkAssertionResult, NetworkEntry } from '../types';
+import { matchesText } from '../utils';
+import { Redactor } from '../redaction';
+
+// Request bodies longer than this are cut off
+const MAX_POST_DATA_LENGTH = 2000;
+
+/**
+ * Whether a request is worth recording
+ * Documents, API calls and anything that sends data are kept; images, styles, fonts and scripts are not
+ */
+export function isCapturedRequest(method: string, resourceType: string): boolean {
+  return method !== 'GET' || ['document', 'xhr', 'fetch', 'eventsource', 'websocket'].includes(resourceType);
+}
+
+/**
+ * Whether a finished request failed or returned an error status
+ */
+export function isFailedRequest(entry: NetworkEntry): boolean {
+  return Boolean(entry.failure) || (entry.status !== undefined && entry.status >= 400);
+}
+
+export function truncatePostData(postData: string | null, redact: Redactor): string | undefined {
+  if (!postData) return undefined;
+  // Redacted before it is cut off, so no part of a secret is left at the end
+  const redacted = redact(postData);
+  return redacted.length > MAX_POST_DATA_LENGTH
+    ? `${redacted.slice(0, MAX_POST_DATA_LENGTH)}… (${redacted.length} characters)`
+    : redacted;
+}
+
+/**
+ * Describe a request for error details, e.g. "POST https://example.com/api/leads → 500"
+ */
+export function describeNetworkEntry(entry: NetworkEntry): string {
+  const outcome = entry.failure || (entry.status !== undefined ? String(entry.status) : 'no response');
+  return `${entry.method} ${entry.url} → ${outcome}`;
+}
+
+/**
+ * Whether a status matches "2xx"-style classes or an exact status
+ */
+function matchesStatus(expected: string, status: number): boolean {
+  return /^[1-5]xx$/i.test(expected)
+    ? Math.floor(status / 100) === Number(expected[0])
+    : status === Number(expected);
+}
+
+/**
+ * Check that a step made a matching request that returned the expected status
+ */
+export function evaluateNetworkAssertion(assertion: NetworkAssertion, entries: NetworkEntry[]): NetworkAssertionResult {
+  const method = assertion.method?.toUpperCase();
+  const status = assertion.status || '2xx';
+  const description = `${method || 'A request'} to ${assertion.url} returning ${status}`;
+
+  const requests = entries.filter(entry =>
+    (!method || entry.method === method) && matchesText(assertion.url, entry.url));
+  const passed = requests.some(entry => entry.status !== undefined && matchesStatus(status, entry.status));
+
+  let message: string;
+  if (passed) {
+    message = `${description}: passed`;
+  } else if (requests.length === 0) {
+    message = `${description}: no matching request was made`;
+  } else {
+    message = `${description}: got ${requests.map(describeNetworkEntry).join(', ')}`;
+  }
+
+  return { ...assertion, passed, message };
+}
@@ -0,0 +1,84 @@
+import { CrawlCTACheck, CrawlFormCheck } from '../types';
+
+// Links to files rather than pages are never crawled
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|dmg|exe|jpe?g|png|gif|svg|webp|ico|mp4|mp3|webm|css|js|json|xml|txt)$/i;
+
+/**
+ * Resolve a link against the page it was found on and normalize it for de-duplication
+ * @returns The absolute URL without its fragment, or null if it should not be crawled
+ */
+export function normalizeCrawlUrl(href: string, base: string, origin: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (url.origin !== origin) return null;
+    if (NON_PAGE_EXTENSIONS.test(url.pathname)) return null;
+
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the entries of a sitemap
+ * A sitemap index lists further sitemaps instead of pages
+ */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locations = Array.from(xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi))
+    .map(match => match[1]
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'"));
+
+  return /<sitemapindex[\s>]/i.test(xml)
+    ? { pages: [], sitemaps: locations }
+    : { pages: locations, sitemaps: [] };
+}
+
+/**
+ * Extract the sitemaps declared in robots.txt
+ */
+export function parseRobotsSitemaps(robots: string): string[] {
+  return robots
+    .split(/\r?\n/)
+    .map(line => line.match(/^\s*sitemap:\s*(\S+)/i)?.[1])
+    .filter((location): location is string => Boolean(location));
+}
+
+/**
+ * Describe what is wrong with a form, if anything
+ * Forms are only inspected, never submitted, so crawling cannot create leads
+ */
+export function getFormIssue(form: Omit<CrawlFormCheck, 'issue'>): string | undefined {
+  if (form.fieldCount === 0) return undefined;
+  if (form.disabledCount === form.fieldCount) {
+    return 'All fields are disabled';
+  }
+  // Browsers only submit a form without a submit button when it has a single field
+  if (!form.hasSubmit && form.fieldCount > 1) {
+    return 'Form has no submit button';
+  }
+  return undefined;
+}
+
+/**
+ * Describe what is wrong with the primary CTA of a page, if anything
+ */
+export function getCTAIssue(cta: CrawlCTACheck): string | undefined {
+  const label = cta.element.text ? `"${cta.element.text}"` : `<${cta.element.tag}>`;
+
+  if (cta.outcome === 'click-failed') {
+    return `Primary CTA ${label} could not be clicked`;
+  }
+  if (cta.outcome === 'no-effect') {
+    return `Clicking the primary CTA ${label} had no visible effect`;
+  }
+  if (cta.destinationStatus && cta.destinationStatus >= 400) {
+    return `Primary CTA ${label} leads to ${cta.destination}, which returned HTTP ${cta.destinationStatus}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,109 @@
+import { TestDataLocale } from '../types';
+
+/**
+ * The data used to generate realistic values for a locale
+ * In patterns, "#" is replaced by a random digit and "@" by a random uppercase letter
+ */
+export interface TestDataLocaleData {
+  country: string;
+  firstNames: string[];
+  lastNames: string[];
+  cities: string[];
+  streets: string[];
+  // "12 Main Street" rather than "Hauptstraße 12"
+  houseNumberFirst: boolean;
+  postalCodePatterns: string[];
+  // International dialling code, e.g. "+44"
+  dialCode: string;
+  // Prefix of national numbers, e.g. "0" in "07700 900123"
+  trunkPrefix: string;
+  // National significant numbers, in ranges reserved for fiction where the country has one
+  phonePatterns: string[];
+}
+
+export const TEST_DATA_LOCALES: Record<TestDataLocale, TestDataLocaleData> = {
+  'en-US': {
+    country: 'United States',
+    firstNames: ['John', 'Jane', 'Alex', 'Sarah', 'Michael', 'Emma', 'David', 'Olivia', 'James', 'Sophia'],
+    lastNames: ['Smith', 'Johnson', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Anderson', 'Taylor'],
+    cities: ['New York', 'Chicago', 'Austin', 'Seattle', 'Boston', 'Denver'],
+    streets: ['Main Street', 'Oak Avenue', 'Maple Drive', 'Park Place', 'Cedar Lane'],
+    houseNumberFirst: true,
+    postalCodePatterns: ['1####', '6####', '9####'],
+    dialCode: '+1',
+    trunkPrefix: '',
+    phonePatterns: ['212 555 01##', '312 555 01##', '415 555 01##', '617 555 01##']
+  },
+  'en-GB': {
+    country: 'United Kingdom',
+    firstNames: ['Oliver', 'Amelia', 'George', 'Isla', 'Harry', 'Ava', 'Jack', 'Emily', 'Charlie', 'Grace'],
+    lastNames: ['Smith', 'Jones', 'Williams', 'Taylor', 'Davies', 'Evans', 'Thomas', 'Roberts', 'Walker', 'Wright'],
+    cities: ['London', 'Manchester', 'Bristol', 'Leeds', 'Edinburgh', 'Cardiff'],
+    streets: ['High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Park Road'],
+    houseNumberFirst: true,
+    postalCodePatterns: ['@@# #@@', '@# #@@', '@@## #@@'],
+    dialCode: '+44',
+    trunkPrefix: '0',
+    phonePatterns: ['7700 900###']
+  },
+  'en-AU': {
+    country: 'Australia',
+    firstNames: ['Jack', 'Charlotte', 'William', 'Olivia', 'Noah', 'Mia', 'Thomas', 'Chloe', 'Lucas', 'Ruby'],
+    lastNames: ['Smith', 'Jones', 'Williams', 'Brown', 'Wilson', 'Taylor', 'Nguyen', 'Johnson', 'Martin', 'White'],
+    cities: ['Sydney', 'Melbourne', 'Brisbane', 'Perth', 'Adelaide', 'Hobart'],
+    streets: ['George Street', 'Collins Street', 'King Street', 'Queen Street', 'Elizabeth Street'],
+    houseNumberFirst: true,
+    postalCodePatterns: ['2###', '3###', '4###'],
+    dialCode: '+61',
+    trunkPrefix: '0',
+    phonePatterns: ['491 570 1##']
+  },
+  'en-IN': {
+    country: 'India',
+    firstNames: ['Aarav', 'Diya', 'Vivaan', 'Ananya', 'Arjun', 'Isha', 'Rohan', 'Priya', 'Karan', 'Neha'],
+    lastNames: ['Sharma', 'Patel', 'Singh', 'Kumar', 'Gupta', 'Reddy', 'Iyer', 'Mehta', 'Nair', 'Joshi'],
+    cities: ['Mumbai', 'Bengaluru', 'Delhi', 'Pune', 'Hyderabad', 'Chennai'],
+    streets: ['MG Road', 'Park Street', 'Brigade Road', 'Linking Road', 'Church Street'],
+    houseNumberFirst: true,
+    postalCodePatterns: ['110###', '400###', '560###'],
+    dialCode: '+91',
+    trunkPrefix: '0',
+    phonePatterns: ['98### #####', '99### #####', '70### #####']
+  },
+  'de-DE': {
+    country: 'Deutschland',
+    firstNames: ['Lukas', 'Anna', 'Leon', 'Marie', 'Felix', 'Sophie', 'Jonas', 'Laura', 'Paul', 'Lena'],
+    lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Hoffmann', 'Koch'],
+    cities: ['Berlin', 'Hamburg', 'München', 'Köln', 'Frankfurt am Main', 'Stuttgart'],
+    streets: ['Hauptstraße', 'Schulstraße', 'Gartenstraße', 'Bahnhofstraße', 'Lindenweg'],
+    houseNumberFirst: false,
+    postalCodePatterns: ['1####', '2####', '8####'],
+    dialCode: '+49',
+    trunkPrefix: '0',
+    phonePatterns: ['151 2#######', '160 #######', '170 #######']
+  },
+  'fr-FR': {
+    country: 'France',
+    firstNames: ['Louis', 'Emma', 'Gabriel', 'Jade', 'Arthur', 'Louise', 'Hugo', 'Alice', 'Jules', 'Chloé'],
+    lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau'],
+    cities: ['Paris', 'Lyon', 'Marseille', 'Toulouse', 'Bordeaux', 'Lille'],
+    streets: ['rue de la Paix', 'avenue Victor Hugo', 'rue du Moulin', 'boulevard Voltaire', 'rue de la République'],
+    houseNumberFirst: true,
+    postalCodePatterns: ['75###', '69###', '13###'],
+    dialCode: '+33',
+    trunkPrefix: '0',
+    phonePatterns: ['6 ## ## ## ##', '7 ## ## ## ##']
+  },
+  'es-ES': {
+    country: 'España',
+    firstNames: ['Hugo', 'Lucía', 'Martín', 'Sofía', 'Pablo', 'María', 'Daniel', 'Paula', 'Alejandro', 'Carmen'],
+    lastNames: ['García', 'Fernández', 'González', 'Rodríguez', 'López', 'Martínez', 'Sánchez', 'Pérez', 'Gómez', 'Ruiz'],
+    cities: ['Madrid', 'Barcelona', 'Valencia', 'Sevilla', 'Bilbao', 'Málaga'],
+    streets: ['Calle Mayor', 'Gran Vía', 'Calle de Alcalá', 'Paseo de Gracia', 'Calle Real'],
+    houseNumberFirst: false,
+    postalCodePatterns: ['28###', '08###', '46###'],
+    dialCode: '+34',
+    trunkPrefix: '',
+    phonePatterns: ['6## ### ###']
+  }
+};
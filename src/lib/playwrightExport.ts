@@ -0,0 +1,142 @@
+import { CustomStepResult, PageElement, RecordedAction, TestWebsiteResponse } from './types';
+import { PlaywrightDOMInteractor } from './interactions/PlaywrightDOMInteractor';
+import { getSecretEnvName, hasSecretPlaceholder, splitSecretPlaceholders } from './redaction';
+
+/**
+ * Derive the selector for an element using the same rules as the test runner
+ */
+function selectorForElement(element: PageElement): string {
+  return PlaywrightDOMInteractor.buildSelector({
+    tag: element.tag,
+    id: element.id,
+    classes: element.classes,
+    text: element.text,
+    attributes: {
+      type: element.type,
+      placeholder: element.placeholder,
+      name: element.name,
+      href: element.href
+    }
+  });
+}
+
+/**
+ * Get the actions executed for a step
+ * Results recorded before actions were tracked only have the final LLM decision
+ */
+function getStepActions(step: CustomStepResult): RecordedAction[] {
+  if (step.actions) {
+    return step.actions.filter(action => action.success);
+  }
+
+  if (step.llmDecision) {
+    const { action, value, targetElement } = step.llmDecision;
+    return [{
+      action,
+      value,
+      targetElement,
+      selector: targetElement ? selectorForElement(targetElement) : undefined,
+      success: step.success
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Quote a value as a TypeScript string expression
+ * Secret placeholders become reads of the SECRET_<NAME> environment variables
+ */
+function quote(value: string): string {
+  if (!hasSecretPlaceholder(value)) {
+    return JSON.stringify(value);
+  }
+
+  return splitSecretPlaceholders(value)
+    .map((part, index) => index % 2 ? `process.env.${getSecretEnvName(part)}!` : JSON.stringify(part))
+    .filter(part => part !== '""')
+    .join(' + ');
+}
+
+/**
+ * Turn a single recorded action into @playwright/test code
+ */
+function actionToCode(action: RecordedAction): string[] {
+  const locator = action.selector ? `page.locator(${quote(action.selector)}).first()` : null;
+  const value = quote(action.value || '');
+
+  switch (action.action) {
+    case 'click':
+      return locator ? [`await ${locator}.click();`] : [`// click skipped: no target was recorded`];
+    case 'type':
+      return locator ? [`await ${locator}.fill(${value});`] : [`// type skipped: no target was recorded`];
+    case 'select':
+      return locator ? [`await ${locator}.selectOption(${value});`] : [`// select skipped: no target was recorded`];
+    case 'check':
+      if (!locator) return [`// check skipped: no target was recorded`];
+      return [action.value === 'false' ? `await ${locator}.uncheck();` : `await ${locator}.check();`];
+    case 'hover':
+      return locator ? [`await ${locator}.hover();`] : [`// hover skipped: no target was recorded`];
+    case 'press':
+      return [`await page.keyboard.press(${value});`];
+    case 'submit':
+      // Mirrors PlaywrightDOMInteractor.submitForm
+      return locator
+        ? [`await ${locator}.dispatchEvent('submit');`]
+        : [`await page.locator('button[type="submit"], input[type="submit"]').first().click();`];
+    case 'wait':
+      return locator ? [`await expect(${locator}).toBeVisible();`] : [`await page.waitForTimeout(2000);`];
+    case 'verify':
+      return locator ? [`await expect(${locator}).toBeAttached();`] : [`// verify skipped: no target was recorded`];
+    case 'switchTab':
+      return [
+        `// Switch to the most recently opened tab (${action.value || 'unknown'} during the recorded run)`,
+        `page = page.context().pages().slice(-1)[0];`
+      ];
+    default:
+      return [`// Unsupported action: ${action.action}`];
+  }
+}
+
+/**
+ * Generate a @playwright/test spec that repeats the actions of a test run
+ * @param result The completed test result
+ */
+export function generatePlaywrightSpec(result: Pick<TestWebsiteResponse, 'testId' | 'url' | 'customStepsResults'>): string {
+  const lines: string[] = [
+    `test(${quote(`User journey on ${result.url}`)}, async ({ page }) => {`,
+    `  await page.goto(${quote(result.url)});`
+  ];
+
+  for (const step of result.customStepsResults || []) {
+    lines.push(``);
+    lines.push(`  await test.step(${quote(step.instruction)}, async () => {`);
+
+    const actions = getStepActions(step);
+    if (actions.length === 0) {
+      lines.push(`    // No actions were recorded for this step`);
+    }
+    for (const action of actions) {
+      for (const line of actionToCode(action)) {
+        lines.push(`    ${line}`);
+      }
+    }
+    if (!step.success) {
+      lines.push(`    // This step failed during the recorded run: ${(step.error || 'unknown error').replace(/\s+/g, ' ')}`);
+    }
+
+    lines.push(`  });`);
+  }
+
+  lines.push(`});`, ``);
+
+  // Only import expect when an assertion was generated
+  const imports = lines.some(line => line.includes('expect(')) ? 'test, expect' : 'test';
+  return [
+    `// Generated from test ${result.testId} on ${new Date().toISOString()}`,
+    `// Source URL: ${result.url}`,
+    `import { ${imports} } from '@playwright/test';`,
+    ``,
+    ...lines
+  ].join('\n');
+}
@@ -0,0 +1,205 @@
+import { TestWebsiteRequest, TestWebsiteResponse } from '../types';
+import { WebSiteTest } from '../playwright/WebSiteTest';
+import { TestResultService } from '../services/TestResultService';
+import { CompiledScriptService } from '../services/CompiledScriptService';
+
+/**
+ * A test run waiting for, or occupying, a worker slot
+ */
+interface TestJob {
+  testId: string;
+  request: TestWebsiteRequest;
+  tester: WebSiteTest;
+  controller: AbortController;
+  enqueuedAt: number;
+}
+
+/**
+ * In-process job queue for website tests
+ * Runs at most `concurrency` browser sessions at a time and keeps the
+ * queue position of every waiting test up to date in the TestResultService
+ */
+export class TestJobQueue {
+  private static instance: TestJobQueue;
+  private pending: TestJob[] = [];
+  private running: Map<string, TestJob> = new Map();
+  private concurrency: number;
+  private maxQueueSize: number;
+  private testResultService: TestResultService;
+
+  private constructor() {
+    this.concurrency = Math.max(1, Number(process.env.TEST_WORKER_CONCURRENCY) || 2);
+    this.maxQueueSize = Math.max(1, Number(process.env.TEST_QUEUE_MAX_SIZE) || 50);
+    this.testResultService = TestResultService.getInstance();
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TestJobQueue {
+    if (!TestJobQueue.instance) {
+      TestJobQueue.instance = new TestJobQueue();
+    }
+    return TestJobQueue.instance;
+  }
+
+  /**
+   * Check if the queue can accept more jobs
+   */
+  public isFull(): boolean {
+    return this.pending.length >= this.maxQueueSize;
+  }
+
+  /**
+   * Number of jobs that can still be queued
+   */
+  public getRemainingCapacity(): number {
+    return Math.max(0, this.maxQueueSize - this.pending.length);
+  }
+
+  /**
+   * Add a test to the queue
+   * @returns The ID of the queued test
+   */
+  public enqueue(request: TestWebsiteRequest): string {
+    if (this.isFull()) {
+      throw new Error(`Test queue is full (${this.maxQueueSize} tests waiting)`);
+    }
+
+    const controller = new AbortController();
+    const tester = new WebSiteTest(request, controller.signal);
+    const job: TestJob = {
+      testId: tester.getTestId(),
+      request,
+      tester,
+      controller,
+      enqueuedAt: Date.now()
+    };
+
+    this.pending.push(job);
+    this.updateQueuePositions();
+    this.drain();
+
+    return job.testId;
+  }
+
+  /**
+   * Cancel a queued or running test
+   * Queued tests are removed immediately; running tests are aborted and
+   * recorded as cancelled once the browser has shut down
+   * @returns true if the test was found and cancelled
+   */
+  public cancel(testId: string, reason: string = 'Test cancelled by user'): boolean {
+    const index = this.pending.findIndex(job => job.testId === testId);
+    if (index !== -1) {
+      const [job] = this.pending.splice(index, 1);
+      job.controller.abort(new Error(reason));
+      this.testResultService.cancelTest(testId, reason);
+      this.updateQueuePositions();
+      return true;
+    }
+
+    const runningJob = this.running.get(testId);
+    if (runningJob) {
+      if (!runningJob.controller.signal.aborted) {
+        runningJob.controller.abort(new Error(reason));
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Check if a test is waiting in this queue or executing
+   * Unlike the stored status, this is never left over from before a restart
+   */
+  public hasJob(testId: string): boolean {
+    return this.running.has(testId) || this.pending.some(job => job.testId === testId);
+  }
+
+  /**
+   * Check if a test is currently executing
+   */
+  public isRunning(testId: string): boolean {
+    return this.running.has(testId);
+  }
+
+  /**
+   * Get the current queue statistics
+   */
+  public getStats(): { pending: number; running: number; concurrency: number } {
+    return {
+      pending: this.pending.length,
+      running: this.running.size,
+      concurrency: this.concurrency
+    };
+  }
+
+  /**
+   * Start queued jobs until every worker slot is busy
+   */
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running.set(job.testId, job);
+
+      this.runJob(job).finally(() => {
+        this.running.delete(job.testId);
+        this.drain();
+      });
+    }
+
+    this.updateQueuePositions();
+  }
+
+  /**
+   * Execute a single job and record its outcome
+   * This is the only place a queued test reaches its final status; runs throw
+   * on failure instead of recording it themselves
+   */
+  private async runJob(job: TestJob): Promise<void> {
+    try {
+      const result = job.request.crawl
+        ? await job.tester.runCrawl(job.request.url)
+        : await job.tester.runTestWithCustomSteps(job.request.url, job.request.customSteps || []);
+
+      if (job.controller.signal.aborted) {
+        const reason = job.controller.signal.reason;
+        this.testResultService.cancelTest(job.testId, reason instanceof Error ? reason.message : String(reason), result);
+        return;
+      }
+
+      this.testResultService.completeTest(result);
+      this.compileScript(job, result);
+
+      console.log(`Test completed. Test ID: ${result.testId}, waited ${Date.now() - job.enqueuedAt - result.totalDuration}ms in queue`);
+    } catch (error) {
+      console.error(`Test job ${job.testId} failed:`, error);
+      this.testResultService.failTest(job.testId, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Keep the actions of a passing run so it can be replayed without the LLM
+   */
+  private compileScript(job: TestJob, result: TestWebsiteResponse): void {
+    try {
+      const script = CompiledScriptService.getInstance().compile(result, job.request.replayScriptId, job.request.suite?.id);
+      if (script) {
+        console.log(`Compiled script ${script.id} saved from test ${result.testId}`);
+      }
+    } catch (error) {
+      console.error(`Failed to compile script for test ${result.testId}:`, error);
+    }
+  }
+
+  /**
+   * Write the current queue position of every waiting test
+   */
+  private updateQueuePositions(): void {
+    this.pending.forEach((job, index) => {
+      this.testResultService.updateQueuePosition(job.testId, index + 1);
+    });
+  }
+}
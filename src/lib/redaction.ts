@@ -0,0 +1,128 @@
+/**
+ * Secret Redaction
+ * Steps reference secrets as {{secret:NAME}}; the placeholders are only resolved
+ * when a value is typed into the page, and secret values that show up anywhere
+ * else (prompts, results, logs, reports) are replaced by their placeholders again
+ */
+
+export const REDACTED = '********';
+
+// Values shorter than this are not redacted, so a short secret can't mangle unrelated text
+const MIN_REDACTED_LENGTH = 4;
+
+/**
+ * Replaces secret values in a text
+ */
+export type Redactor = (text: string) => string;
+
+function secretPlaceholderPattern(): RegExp {
+  return /\{\{\s*secret:([A-Za-z0-9_-]+)\s*\}\}/g;
+}
+
+/**
+ * The placeholder of a secret, e.g. "{{secret:DEMO_PASSWORD}}"
+ */
+export function toSecretPlaceholder(name: string): string {
+  return `{{secret:${name}}}`;
+}
+
+/**
+ * The environment variable a secret falls back to, e.g. "demo-password" -> SECRET_DEMO_PASSWORD
+ */
+export function getSecretEnvName(name: string): string {
+  return `SECRET_${name.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * List the names of the secrets a value references
+ */
+export function getSecretReferences(text: string): string[] {
+  return Array.from(text.matchAll(secretPlaceholderPattern()), match => match[1]);
+}
+
+export function hasSecretPlaceholder(text: string): boolean {
+  return secretPlaceholderPattern().test(text);
+}
+
+/**
+ * Replace the placeholders of a value
+ * @param resolve Returns the value of a secret by name
+ */
+export function replaceSecretPlaceholders(text: string, resolve: (name: string) => string): string {
+  return text.replace(secretPlaceholderPattern(), (_, name: string) => resolve(name));
+}
+
+/**
+ * Split a value into literal text (even indexes) and secret names (odd indexes)
+ */
+export function splitSecretPlaceholders(text: string): string[] {
+  return text.split(secretPlaceholderPattern());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The forms a secret can take in a request: as typed, URL-encoded and form-encoded
+ * e.g. "p@ss word!" -> "p%40ss%20word!" and "p%40ss+word%21"
+ */
+function getEncodedForms(value: string): string[] {
+  return [value, encodeURIComponent(value), new URLSearchParams({ v: value }).toString().slice(2)];
+}
+
+/**
+ * Create a redactor that replaces the given secret values with their placeholders
+ * Their URL- and form-encoded forms are replaced too, as they show up in URLs and request bodies
+ */
+export function createRedactor(secrets: { name: string; value: string }[]): Redactor {
+  const placeholders = new Map<string, string>();
+  for (const secret of secrets) {
+    if (secret.value.length < MIN_REDACTED_LENGTH) continue;
+    for (const form of getEncodedForms(secret.value)) {
+      placeholders.set(form, toSecretPlaceholder(secret.name));
+    }
+  }
+  if (placeholders.size === 0) return text => text;
+
+  // Longest first, so a secret containing another one is replaced as a whole
+  const forms = Array.from(placeholders.keys()).sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(forms.map(escapeRegExp).join('|'), 'g');
+  return text => text.replace(pattern, value => placeholders.get(value) || REDACTED);
+}
+
+/**
+ * The value an action typed, masked when it went into a password field
+ * Placeholders are kept since they reveal nothing
+ */
+export function getTypedValue(action: { value?: string; targetElement?: { type?: string } }): string | undefined {
+  if (!action.value || action.targetElement?.type !== 'password' || hasSecretPlaceholder(action.value)) {
+    return action.value;
+  }
+  return REDACTED;
+}
+
+/**
+ * Copy a value with every string redacted and passwords typed by actions masked
+ * Screenshots are images and kept as they are
+ */
+export function redactSecrets<T>(value: T, redact: Redactor): T {
+  if (typeof value === 'string') {
+    return (value.startsWith('data:') ? value : redact(value)) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, redact)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const copy = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactSecrets(item, redact)])
+    ) as Record<string, unknown>;
+
+    // LLM decisions and recorded actions
+    if (typeof copy.value === 'string' && copy.targetElement) {
+      copy.value = getTypedValue(copy as { value: string; targetElement: { type?: string } });
+    }
+    return copy as T;
+  }
+  return value;
+}
@@ -0,0 +1,62 @@
+import { DomainStats, ReportSummary, TestHistoryItem } from './types';
+
+/**
+ * Percentage of successful tests, rounded to a whole number
+ */
+function successRate(successfulTests: number, totalTests: number): number {
+  return totalTests > 0 ? Math.round((successfulTests / totalTests) * 100) : 0;
+}
+
+/**
+ * Summarize the outcome of a set of tests
+ */
+export function summarizeHistory(history: TestHistoryItem[]): ReportSummary {
+  const totalTests = history.length;
+  const successfulTests = history.filter(item => item.success).length;
+
+  return {
+    totalTests,
+    successfulTests,
+    failedTests: totalTests - successfulTests,
+    successRate: successRate(successfulTests, totalTests)
+  };
+}
+
+/**
+ * Group tests by the hostname of their URL
+ * Items with an invalid URL are left out
+ */
+export function getDomainStats(history: TestHistoryItem[]): DomainStats[] {
+  const groups: Record<string, DomainStats> = {};
+
+  for (const item of history) {
+    let domain: string;
+    try {
+      domain = new URL(item.url).hostname;
+    } catch {
+      continue;
+    }
+
+    if (!groups[domain]) {
+      groups[domain] = {
+        domain,
+        totalTests: 0,
+        successfulTests: 0,
+        failedTests: 0,
+        successRate: 0
+      };
+    }
+
+    groups[domain].totalTests++;
+    if (item.success) {
+      groups[domain].successfulTests++;
+    } else {
+      groups[domain].failedTests++;
+    }
+  }
+
+  return Object.values(groups).map(group => ({
+    ...group,
+    successRate: successRate(group.successfulTests, group.totalTests)
+  }));
+}
@@ -0,0 +1,158 @@
+import { ScheduleRun, TestSchedule, TestWebsiteRequest } from '../types';
+import { ScheduleService } from '../services/ScheduleService';
+import { TestSuiteService } from '../services/TestSuiteService';
+import { TestDataProfileService } from '../services/TestDataProfileService';
+import { LoginRecipeService } from '../services/LoginRecipeService';
+import { TestJobQueue } from '../queue/TestJobQueue';
+import { WebSiteTest } from '../playwright/WebSiteTest';
+
+/**
+ * Runs schedules when their cron expression comes due
+ * Due schedules are checked on a fixed interval and queued through the
+ * TestJobQueue, so scheduled runs share the worker pool with manual ones
+ */
+export class TestScheduler {
+  private static instance: TestScheduler;
+  private timer: NodeJS.Timeout | null = null;
+  private interval: number;
+
+  private constructor() {
+    this.interval = Math.max(1000, Number(process.env.SCHEDULER_INTERVAL) || 30000);
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TestScheduler {
+    if (!TestScheduler.instance) {
+      TestScheduler.instance = new TestScheduler();
+    }
+    return TestScheduler.instance;
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    console.log(`Test scheduler started, checking every ${this.interval}ms`);
+    this.timer = setInterval(() => this.tick(), this.interval);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking for due schedules
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Trigger every schedule that is due
+   * @param now The current time
+   */
+  public tick(now: Date = new Date()): void {
+    const scheduleService = ScheduleService.getInstance();
+
+    for (const schedule of scheduleService.getAllSchedules()) {
+      if (schedule.paused || !schedule.nextRunAt || new Date(schedule.nextRunAt) > now) {
+        continue;
+      }
+
+      try {
+        const run = this.trigger(schedule, now);
+        scheduleService.recordRun(schedule.id, run);
+
+        if (run.status === 'queued') {
+          console.log(`Schedule ${schedule.id} queued test ${run.testId}`);
+        } else {
+          console.warn(`Schedule ${schedule.id} skipped: ${run.reason}`);
+        }
+      } catch (error) {
+        console.error(`Error running schedule ${schedule.id}:`, error);
+        scheduleService.recordRun(schedule.id, {
+          scheduledFor: schedule.nextRunAt,
+          triggeredAt: now.toISOString(),
+          status: 'skipped',
+          reason: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Queue a test for a due schedule
+   */
+  private trigger(schedule: TestSchedule, now: Date): ScheduleRun {
+    const base = {
+      scheduledFor: schedule.nextRunAt || now.toISOString(),
+      triggeredAt: now.toISOString()
+    };
+
+    // Never start a run while the previous one is still waiting or running
+    // The queue is asked rather than the stored status, which a restart can leave pending forever
+    const testQueue = TestJobQueue.getInstance();
+    if (schedule.activeTestId && testQueue.hasJob(schedule.activeTestId)) {
+      const status = testQueue.isRunning(schedule.activeTestId) ? 'running' : 'pending';
+      return { ...base, status: 'skipped', reason: `Previous run ${schedule.activeTestId} is still ${status}` };
+    }
+
+    const request = this.buildRequest(schedule);
+    if (!request) {
+      return { ...base, status: 'skipped', reason: `Suite ${schedule.suiteId} no longer exists` };
+    }
+
+    const missingProfile = TestDataProfileService.getInstance().findMissingProfile(request.options?.dataProfile);
+    if (missingProfile) {
+      return { ...base, status: 'skipped', reason: `Test data profile ${missingProfile} not found` };
+    }
+
+    const recipeProblem = LoginRecipeService.getInstance().findRecipeProblem(request.options?.auth?.loginRecipe, request.url);
+    if (recipeProblem) {
+      return { ...base, status: 'skipped', reason: recipeProblem.error };
+    }
+
+    const tracedSecret = WebSiteTest.findTracedSecret(request);
+    if (tracedSecret) {
+      return { ...base, status: 'skipped', reason: `recordTrace cannot be used with secret ${tracedSecret}` };
+    }
+
+    if (testQueue.isFull()) {
+      return { ...base, status: 'skipped', reason: 'Test queue is full' };
+    }
+
+    const testId = testQueue.enqueue(request);
+    return { ...base, status: 'queued', testId };
+  }
+
+  /**
+   * Build the test request for a schedule
+   * Suites are resolved on every run so schedules pick up their latest version
+   * @returns The request, or null if the scheduled suite was deleted
+   */
+  private buildRequest(schedule: TestSchedule): TestWebsiteRequest | null {
+    if (schedule.suiteId) {
+      const suiteService = TestSuiteService.getInstance();
+      const suite = suiteService.getSuite(schedule.suiteId);
+      if (!suite) return null;
+
+      return {
+        url: suite.baseUrl,
+        customSteps: suite.customSteps,
+        options: { ...suite.options, ...schedule.options },
+        suite: suiteService.toRef(suite)
+      };
+    }
+
+    return {
+      url: schedule.url || '',
+      customSteps: schedule.customSteps,
+      options: schedule.options
+    };
+  }
+}
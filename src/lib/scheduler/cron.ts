@@ -0,0 +1,185 @@
+/**
+ * Minimal cron expression support for the scheduler
+ * Standard five fields (minute hour day-of-month month day-of-week) with
+ * `*`, lists, ranges, steps, month/day names and the @hourly style macros.
+ * Times are evaluated in the server's local time zone.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Searching further than this means the expression can never match (e.g. 30 February)
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse a single value, accepting names where the field allows them
+ */
+function parseValue(value: string, names: string[] | null, offset: number, field: string): number {
+  const lower = value.toLowerCase();
+  if (names) {
+    const index = names.indexOf(lower);
+    if (index !== -1) return index + offset;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid value "${value}" in ${field} field`);
+  }
+  return Number(value);
+}
+
+/**
+ * Expand one cron field into the set of values it matches
+ */
+function parseField(expression: string, min: number, max: number, field: string, names: string[] | null = null, nameOffset: number = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${field} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, nameOffset, field);
+      end = parseValue(to, names, nameOffset, field);
+    } else {
+      start = parseValue(range, names, nameOffset, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Value out of range in ${field} field: "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(source: string): CronExpression {
+  const expression = MACROS[source.trim().toLowerCase()] || source.trim();
+  const fields = expression.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, 'day-of-week', DAY_NAMES);
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes: parseField(minute, 0, 59, 'minute'),
+    hours: parseField(hour, 0, 23, 'hour'),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, 'day-of-month'),
+    months: parseField(month, 1, 12, 'month', MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*'
+  };
+}
+
+/**
+ * Check if a cron expression is valid
+ */
+export function isValidCron(source: string): boolean {
+  try {
+    parseCron(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if the day of a date matches the day fields of an expression
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonthMatch = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeekMatch = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+/**
+ * Get the first time strictly after `after` that matches the expression
+ * @returns The next run time, or null if the expression never matches
+ */
+export function getNextRun(cron: CronExpression, after: Date = new Date()): Date | null {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+  // Skip whole months, days and hours that cannot match before checking minutes
+  while (date.getFullYear() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
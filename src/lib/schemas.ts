@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import { isValidCron } from './scheduler/cron';
+import { isKnownDevice } from './playwright/browserProfiles';
+import { isValidTextPattern } from './utils';
+import { hasSecretPlaceholder } from './redaction';
+
+/**
+ * Shared request validation schemas for the API routes
+ */
+
+const testDataFields = [
+  "firstName", "lastName", "fullName", "email", "phone", "company", "jobTitle", "message",
+  "street", "city", "postalCode", "country"
+] as const;
+
+// The settings of a test data profile
+export const testDataProfileSettingsSchema = z.object({
+  locale: z.enum(["en-US", "en-GB", "en-AU", "en-IN", "de-DE", "fr-FR", "es-ES"]).optional(),
+  seed: z.string().trim().min(1).max(100).optional(),
+  emailBase: z.string().email({ message: "Invalid email base" }).optional(),
+  phoneFormat: z.enum(["international", "national"]).optional(),
+  values: z.record(z.enum(testDataFields), z.string()).optional()
+});
+
+// A named test data profile
+export const testDataProfileInputSchema = testDataProfileSettingsSchema.extend({
+  name: z.string().trim().regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/, {
+    message: "Name may only contain letters, digits, dashes and underscores"
+  })
+});
+
+function isValidTimezone(timezoneId: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezoneId });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The browser and emulated device of a test run
+const browserProfileShape = {
+  browser: z.enum(["chromium", "firefox", "webkit"]).optional(),
+  device: z.string().refine(isKnownDevice, { message: "Unknown device, use a Playwright device name such as \"iPhone 13\"" }).optional(),
+  viewport: z.object({
+    width: z.number().int().min(240).max(3840),
+    height: z.number().int().min(240).max(2160)
+  }).optional(),
+  locale: z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, { message: "Invalid locale" }).optional(),
+  timezoneId: z.string().refine(isValidTimezone, { message: "Invalid time zone" }).optional()
+};
+
+// How the browser identifies itself to the site
+export const browserIdentitySchema = z.object({
+  userAgentPreset: z.enum(["bot", "browser"]).optional(),
+  userAgent: z.string().trim().min(1).max(500).optional(),
+  extraHeaders: z.record(
+    z.string().regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, { message: "Invalid header name" }),
+    z.string().max(4000)
+  ).refine(headers => Object.keys(headers).length <= 20, { message: "At most 20 extra headers" }).optional(),
+  geolocation: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional()
+  }).optional(),
+  permissions: z.array(z.enum([
+    "geolocation", "notifications", "camera", "microphone", "clipboard-read", "clipboard-write",
+    "midi", "midi-sysex", "background-sync", "accelerometer", "gyroscope", "magnetometer",
+    "ambient-light-sensor", "accessibility-events", "payment-handler", "storage-access"
+  ])).max(20).optional()
+});
+
+// Cookies and localStorage as saved by Playwright's storageState()
+export const storageStateSchema = z.object({
+  cookies: z.array(z.object({
+    name: z.string(),
+    value: z.string(),
+    domain: z.string(),
+    path: z.string(),
+    expires: z.number(),
+    httpOnly: z.boolean(),
+    secure: z.boolean(),
+    sameSite: z.enum(["Strict", "Lax", "None"])
+  })).default([]),
+  origins: z.array(z.object({
+    origin: z.string().url({ message: "Invalid origin" }),
+    localStorage: z.array(z.object({ name: z.string(), value: z.string() }))
+  })).default([])
+});
+
+// How a test run logs in
+export const authOptionsSchema = z.object({
+  storageState: storageStateSchema.optional(),
+  loginRecipe: z.string().min(1).optional()
+}).refine(auth => !(auth.storageState && auth.loginRecipe), {
+  message: "Provide either a storageState or a loginRecipe"
+});
+
+// One cell of a browser matrix
+export const browserProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  ...browserProfileShape
+});
+
+// Options accepted wherever a test run is configured
+export const testOptionsSchema = z.object({
+  timeout: z.number().min(5000).max(120000).optional(),
+  screenshotCapture: z.boolean().optional(),
+  headless: z.boolean().optional(),
+  maxStepActions: z.number().int().min(1).max(50).optional(),
+  maxStepDuration: z.number().min(5000).max(600000).optional(),
+  maxStepTokens: z.number().int().min(1000).optional(),
+  dataProfile: z.union([z.string().min(1), testDataProfileSettingsSchema]).optional(),
+  failOnConsoleErrors: z.boolean().optional(),
+  recordTrace: z.boolean().optional(),
+  recordVideo: z.boolean().optional(),
+  ...browserProfileShape,
+  identity: browserIdentitySchema.optional(),
+  auth: authOptionsSchema.optional()
+});
+
+// Fields whose values must come from the secrets store rather than be saved with the recipe
+const CREDENTIAL_SELECTOR = /pass|pwd|secret|token|\botp|\bpin\b/i;
+
+// A reusable login; selectors are required by the actions that target an element
+export const loginRecipeInputSchema = z.object({
+  name: z.string().trim().regex(/^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/, {
+    message: "Name may only contain letters, digits, dashes and underscores"
+  }),
+  domain: z.string().trim().regex(/^[A-Za-z0-9.-]+\.[A-Za-z]{2,}$|^localhost$/, { message: "Invalid domain" }),
+  loginUrl: z.string().url({ message: "Invalid URL format" }),
+  steps: z.array(z.object({
+    action: z.enum(["goto", "fill", "click", "press", "waitFor"]),
+    selector: z.string().trim().min(1).optional(),
+    value: z.string().optional()
+  }).refine(step => !["fill", "click", "waitFor"].includes(step.action) || step.selector, {
+    message: "This action needs a selector"
+  }).refine(step => step.action !== "fill" || !step.value || !CREDENTIAL_SELECTOR.test(step.selector || "") || hasSecretPlaceholder(step.value), {
+    message: "Credentials must be referenced as {{secret:NAME}} instead of saved in the recipe",
+    path: ["value"]
+  })).min(1).max(30),
+  successSelector: z.string().trim().min(1).optional(),
+  successUrl: z.string().trim().min(1).optional(),
+  sessionTtl: z.number().int().min(1).max(10080).optional()
+});
+
+// Secrets are referenced as {{secret:NAME}}
+export const secretNameSchema = z.string().regex(/^[A-Za-z0-9_-]{1,100}$/, {
+  message: "Name may only contain letters, digits, dashes and underscores"
+});
+
+// The value of a secret; its name comes from the URL
+export const secretInputSchema = z.object({
+  value: z.string().min(1, { message: "Value is required" }).max(10000)
+});
+
+// Crawl mode of a test run
+export const crawlOptionsSchema = z.object({
+  source: z.enum(["auto", "sitemap", "links"]).optional(),
+  maxDepth: z.number().int().min(0).max(5).optional(),
+  maxPages: z.number().int().min(1).max(200).optional()
+});
+
+// Auto-fill mode of a test run
+export const autoFillOptionsSchema = z.object({
+  formSelector: z.string().trim().min(1).optional()
+});
+
+// Email verification after a test run
+// A case-insensitive substring, or a regular expression written as "re:pattern"
+const textPatternSchema = z.string().min(1).refine(isValidTextPattern, { message: "Invalid regular expression" });
+
+export const emailVerificationOptionsSchema = z.object({
+  subject: textPatternSchema.optional(),
+  body: textPatternSchema.optional(),
+  timeout: z.number().min(5000).max(600000).optional(),
+  followLink: textPatternSchema.optional(),
+  steps: z.array(z.string()).optional()
+});
+
+// A request a custom step must make
+export const networkAssertionSchema = z.object({
+  step: z.number().int().min(0).optional(),
+  method: z.string().trim().min(1).optional(),
+  url: textPatternSchema,
+  status: z.string().regex(/^[1-5](xx|\d\d)$/i, { message: "Status must be a class such as 2xx or a status such as 201" }).optional()
+});
+
+// A saved suite as submitted by the suite editor
+export const suiteInputSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(200),
+  baseUrl: z.string().url({ message: "Invalid URL format" }),
+  customSteps: z.array(z.string().trim().min(1)).default([]),
+  options: testOptionsSchema.optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).default([])
+});
+
+// A schedule runs either a saved suite or an inline URL and steps
+export const scheduleInputSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(200),
+  cron: z.string().trim().refine(isValidCron, { message: "Invalid cron expression" }),
+  suiteId: z.string().min(1).optional(),
+  url: z.string().url({ message: "Invalid URL format" }).optional(),
+  customSteps: z.array(z.string().trim().min(1)).optional(),
+  options: testOptionsSchema.optional(),
+  paused: z.boolean().optional()
+}).refine(input => Boolean(input.suiteId) !== Boolean(input.url), {
+  message: "Provide either a suiteId or a url"
+});
+
+// A webhook notified about regressions and recoveries
+export const webhookInputSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(200),
+  url: z.string().url({ message: "Invalid URL format" }),
+  format: z.enum(["slack", "json"]).default("json"),
+  secret: z.string().min(1).optional(),
+  events: z.array(z.enum(["regression", "recovery"])).min(1).default(["regression", "recovery"]),
+  suiteIds: z.array(z.string().min(1)).default([]),
+  enabled: z.boolean().default(true)
+});
+
+// A batch of URLs; steps given for a URL replace the shared customSteps
+export const batchRequestSchema = z.object({
+  urls: z.array(z.union([
+    z.string().url({ message: "Invalid URL format" }),
+    z.object({
+      url: z.string().url({ message: "Invalid URL format" }),
+      customSteps: z.array(z.string()).optional()
+    })
+  ])).min(1, { message: "At least one URL is required" }).max(100),
+  customSteps: z.array(z.string()).optional(),
+  options: testOptionsSchema.optional()
+});
@@ -0,0 +1,108 @@
+/**
+ * Anthropic Service Implementation
+ * Concrete implementation of PromptLLMService using the Anthropic Messages API
+ */
+
+import { PromptImage, PromptLLMService } from "./PromptLLMService";
+import Anthropic from "@anthropic-ai/sdk";
+
+type AnthropicImageMediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+
+const SUPPORTED_IMAGE_TYPES: AnthropicImageMediaType[] = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+export interface AnthropicServiceOptions {
+  model?: string;
+  visionModel?: string;
+  baseURL?: string;
+}
+
+export class AnthropicService extends PromptLLMService {
+  protected readonly providerName: string = "Anthropic";
+  private client: Anthropic;
+  private model: string;
+  private visionModel: string;
+
+  constructor(apiKey: string, options: AnthropicServiceOptions = {}) {
+    super();
+    this.model = options.model || "claude-3-7-sonnet-latest";
+    this.visionModel = options.visionModel || this.model;
+    this.client = new Anthropic({
+      apiKey: apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  /**
+   * Makes a request to the Anthropic API with retry logic
+   * @param prompt The prompt to send
+   * @param systemPrompt The system instruction
+   */
+  protected async makeRequest(prompt: string, systemPrompt: string): Promise<string> {
+    return this.withRetries(async () => {
+      const response = await this.client.messages.create({
+        model: this.model,
+        system: systemPrompt,
+        messages: [
+          { role: "user", content: prompt }
+        ],
+        temperature: 0.2,
+        max_tokens: 1500,
+      }, { signal: this.signal });
+
+      this.recordTokenUsage(response.usage.input_tokens, response.usage.output_tokens);
+
+      return this.extractText(response);
+    });
+  }
+
+  /**
+   * Makes a request with images to the Anthropic vision model
+   * @param prompt The prompt to send
+   * @param systemPrompt The system instruction
+   * @param images The images to attach
+   */
+  protected async makeVisionRequest(prompt: string, systemPrompt: string, images: PromptImage[]): Promise<string> {
+    const response = await this.client.messages.create({
+      model: this.visionModel,
+      system: systemPrompt,
+      messages: [
+        {
+          role: "user",
+          content: [
+            ...images.map(image => ({
+              type: "image" as const,
+              source: {
+                type: "base64" as const,
+                media_type: this.toImageMediaType(image.mediaType),
+                data: image.base64
+              }
+            })),
+            { type: "text" as const, text: prompt }
+          ]
+        }
+      ],
+      max_tokens: 1500,
+      temperature: 0.2
+    }, { signal: this.signal });
+
+    this.recordTokenUsage(response.usage.input_tokens, response.usage.output_tokens);
+
+    return this.extractText(response);
+  }
+
+  /**
+   * Joins the text blocks of a message response
+   */
+  private extractText(response: Anthropic.Message): string {
+    return response.content
+      .map(block => block.type === "text" ? block.text : "")
+      .join("");
+  }
+
+  /**
+   * Maps a screenshot media type to one the Messages API accepts
+   */
+  private toImageMediaType(mediaType: string): AnthropicImageMediaType {
+    return SUPPORTED_IMAGE_TYPES.find(type => type === mediaType) || "image/png";
+  }
+}
@@ -3,9 +3,57 @@
  * Abstract class that defines the interface for LLM integration
  */
 
-import { ElementSelection, FormFieldIdentification, LLMDecision, PageState, VisionAnalysisResult } from "../types";
+import { ElementSelection, FormFieldIdentification, LLMDecision, PageState, TokenUsage, VisionAnalysisResult } from "../types";
+import { Redactor } from "../redaction";
 
 export abstract class BaseLLMService {
+  protected signal?: AbortSignal;
+  protected redact: Redactor = text => text;
+  private tokenUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  /**
+   * Returns the tokens consumed by this service instance so far
+   */
+  getTokenUsage(): TokenUsage {
+    return { ...this.tokenUsage };
+  }
+
+  /**
+   * Adds the usage reported by a provider response to the running total
+   * @param promptTokens Tokens in the request
+   * @param completionTokens Tokens in the response
+   */
+  protected recordTokenUsage(promptTokens: number, completionTokens: number): void {
+    this.tokenUsage.promptTokens += promptTokens;
+    this.tokenUsage.completionTokens += completionTokens;
+    this.tokenUsage.totalTokens += promptTokens + completionTokens;
+  }
+
+  /**
+   * Sets a signal that aborts in-flight and future requests when the test is cancelled
+   * @param signal The abort signal of the current test run
+   */
+  setAbortSignal(signal?: AbortSignal): void {
+    this.signal = signal;
+  }
+
+  /**
+   * Sets the redactor applied to every prompt, so secret values that appear on
+   * the page or in a step are never sent to the provider
+   * @param redactor The redactor of the current test run
+   */
+  setRedactor(redactor: Redactor): void {
+    this.redact = redactor;
+  }
+
+  /**
+   * Whether the configured model can analyze screenshots
+   * Providers backed by text-only models should override this
+   */
+  supportsVision(): boolean {
+    return true;
+  }
+
   /**
    * Identifies an element to click based on the current page state and instruction
    * @param pageState The current state of the page
@@ -29,11 +77,13 @@ export abstract class BaseLLMService {
    * @param pageState The current state of the page
    * @param currentStep The current test step being executed
    * @param previousActions Previous actions taken
+   * @param testData Values to type into form fields, by field
    */
   abstract determineNextAction(
     pageState: PageState,
     currentStep: string,
-    previousActions?: LLMDecision[]
+    previousActions?: LLMDecision[],
+    testData?: Record<string, string>
   ): Promise<LLMDecision>;
 
   /**
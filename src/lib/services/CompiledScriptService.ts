@@ -0,0 +1,111 @@
+import { CompiledScript, CompiledStep, TestWebsiteResponse } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+
+/**
+ * Service for managing compiled scripts
+ * A compiled script keeps the successful actions and selectors of a passing
+ * run so it can be replayed without asking the LLM again
+ */
+export class CompiledScriptService {
+  private static instance: CompiledScriptService;
+  private scripts: BaseRecordStore<CompiledScript>;
+
+  private constructor(store: BaseRecordStore<CompiledScript>) {
+    this.scripts = store;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): CompiledScriptService {
+    if (!CompiledScriptService.instance) {
+      CompiledScriptService.instance = new CompiledScriptService(
+        createRecordStore<CompiledScript>('compiled-scripts')
+      );
+    }
+    return CompiledScriptService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given store
+   */
+  public static configure(store: BaseRecordStore<CompiledScript>): CompiledScriptService {
+    CompiledScriptService.instance = new CompiledScriptService(store);
+    return CompiledScriptService.instance;
+  }
+
+  /**
+   * Compile a passing test result into a script
+   * A script with the same URL, steps and suite is replaced rather than added,
+   * so repeated runs of a suite or schedule keep a single script
+   * @param result The test result
+   * @param scriptId The script the run replayed; it is updated in place so healed selectors are kept
+   * @param suiteId The suite the run belongs to
+   * @returns The saved script, or null if the result cannot be compiled
+   */
+  public compile(result: TestWebsiteResponse, scriptId?: string, suiteId?: string): CompiledScript | null {
+    if (!result.success || !result.customStepsResults?.length) {
+      return null;
+    }
+
+    const steps: CompiledStep[] = result.customStepsResults.map(stepResult => ({
+      instruction: stepResult.instruction,
+      actions: (stepResult.actions || []).filter(action => action.success)
+    }));
+
+    const now = new Date().toISOString();
+    const existing = scriptId ? this.scripts.get(scriptId) : this.findScript(result.url, steps, suiteId);
+
+    const script: CompiledScript = existing
+      ? { ...existing, url: result.url, sourceTestId: result.testId, updatedAt: now, steps }
+      : {
+          id: result.testId,
+          url: result.url,
+          suiteId,
+          sourceTestId: result.testId,
+          createdAt: now,
+          updatedAt: now,
+          steps
+        };
+
+    this.scripts.set(script.id, script);
+    return script;
+  }
+
+  /**
+   * Find the script compiled from the same URL, steps and suite
+   */
+  private findScript(url: string, steps: CompiledStep[], suiteId?: string): CompiledScript | null {
+    const instructions = JSON.stringify(steps.map(step => step.instruction));
+    return this.scripts.values().find(script =>
+      script.url === url &&
+      script.suiteId === suiteId &&
+      JSON.stringify(script.steps.map(step => step.instruction)) === instructions
+    ) || null;
+  }
+
+  /**
+   * Get a compiled script by ID
+   */
+  public getScript(scriptId: string): CompiledScript | null {
+    return this.scripts.get(scriptId);
+  }
+
+  /**
+   * Get all compiled scripts, most recently updated first
+   */
+  public getAllScripts(): CompiledScript[] {
+    return this.scripts.values().sort((a, b) =>
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
+  }
+
+  /**
+   * Delete a compiled script
+   * @returns true if the script existed
+   */
+  public deleteScript(scriptId: string): boolean {
+    return this.scripts.delete(scriptId);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * LLM Provider Registry
+ * Maps provider names to factories so the LLM backing a test run can be
+ * chosen through configuration instead of code changes
+ */
+
+import { BaseLLMService } from "./BaseLLMService";
+import { OpenAIService } from "./OpenAIService";
+import { OpenAICompatibleService } from "./OpenAICompatibleService";
+import { AnthropicService } from "./AnthropicService";
+import { ScriptedLLMService } from "./ScriptedLLMService";
+
+export interface LLMProviderConfig {
+  provider: string;
+  apiKey?: string;
+  model?: string;
+  visionModel?: string;
+  baseURL?: string;
+  supportsVision?: boolean;
+  scriptPath?: string;
+}
+
+/**
+ * Creates a service for the given configuration, or returns null if the
+ * configuration is incomplete (e.g. a missing API key)
+ */
+export type LLMProviderFactory = (config: LLMProviderConfig) => BaseLLMService | null;
+
+const providers: Map<string, LLMProviderFactory> = new Map();
+
+/**
+ * Register (or replace) a provider factory
+ * @param name The name used in LLM_PROVIDER
+ * @param factory The factory creating the service
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providers.set(name.toLowerCase(), factory);
+}
+
+/**
+ * List the names of all registered providers
+ */
+export function getLLMProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Parse an optional boolean environment variable
+ */
+function parseBooleanEnv(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === '') return undefined;
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Read the LLM provider configuration from the environment
+ * Defaults to OpenAI so existing OPENAI_API_KEY setups keep working
+ */
+export function getLLMProviderConfig(): LLMProviderConfig {
+  const provider = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  const providerKey = provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY;
+
+  return {
+    provider,
+    apiKey: process.env.LLM_API_KEY || providerKey,
+    model: process.env.LLM_MODEL,
+    visionModel: process.env.LLM_VISION_MODEL,
+    baseURL: process.env.LLM_BASE_URL,
+    supportsVision: parseBooleanEnv(process.env.LLM_SUPPORTS_VISION),
+    scriptPath: process.env.LLM_SCRIPT_PATH
+  };
+}
+
+/**
+ * Create the LLM service for a configuration
+ * @param config The provider configuration, read from the environment if omitted
+ * @returns The service, or null if the provider is not configured
+ */
+export function createLLMService(config: LLMProviderConfig = getLLMProviderConfig()): BaseLLMService | null {
+  const factory = providers.get(config.provider.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${config.provider}". Available providers: ${getLLMProviderNames().join(', ')}`);
+  }
+
+  return factory(config);
+}
+
+registerLLMProvider('openai', (config) => {
+  if (!config.apiKey) return null;
+  return new OpenAIService(config.apiKey, config);
+});
+
+registerLLMProvider('anthropic', (config) => {
+  if (!config.apiKey) return null;
+  return new AnthropicService(config.apiKey, config);
+});
+
+registerLLMProvider('openai-compatible', (config) => {
+  if (!config.baseURL || !config.model) return null;
+  return new OpenAICompatibleService({
+    baseURL: config.baseURL,
+    model: config.model,
+    apiKey: config.apiKey,
+    visionModel: config.visionModel,
+    supportsVision: config.supportsVision
+  });
+});
+
+registerLLMProvider('scripted', (config) => {
+  if (!config.scriptPath) return null;
+  return ScriptedLLMService.fromFile(config.scriptPath);
+});
@@ -0,0 +1,161 @@
+import { AuthSession, LoginRecipe, LoginRecipeInput, StorageState } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+
+// Sessions are reused this long unless the recipe sets its own sessionTtl
+const DEFAULT_SESSION_TTL = 60; // minutes
+
+/**
+ * Stores backing the login recipe service
+ */
+export interface LoginRecipeStores {
+  recipes: BaseRecordStore<LoginRecipe>;
+  sessions: BaseRecordStore<AuthSession>;
+}
+
+/**
+ * Whether a URL is on the domain of a recipe or one of its subdomains
+ */
+export function isRecipeDomain(recipe: Pick<LoginRecipe, 'domain'>, url: string): boolean {
+  const hostname = new URL(url).hostname.toLowerCase();
+  const domain = recipe.domain.toLowerCase();
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Service for login recipes and the sessions they create
+ * A recipe runs once; its session is cached and reused by later tests on the
+ * same domain until it expires or the recipe changes
+ */
+export class LoginRecipeService {
+  private static instance: LoginRecipeService;
+  private recipes: BaseRecordStore<LoginRecipe>;
+  private sessions: BaseRecordStore<AuthSession>;
+
+  private constructor(stores: LoginRecipeStores) {
+    this.recipes = stores.recipes;
+    this.sessions = stores.sessions;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): LoginRecipeService {
+    if (!LoginRecipeService.instance) {
+      LoginRecipeService.instance = new LoginRecipeService({
+        recipes: createRecordStore<LoginRecipe>('login-recipes'),
+        sessions: createRecordStore<AuthSession>('auth-sessions')
+      });
+    }
+    return LoginRecipeService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given stores
+   */
+  public static configure(stores: LoginRecipeStores): LoginRecipeService {
+    LoginRecipeService.instance = new LoginRecipeService(stores);
+    return LoginRecipeService.instance;
+  }
+
+  /**
+   * Get all recipes sorted by name
+   */
+  public getAllRecipes(): LoginRecipe[] {
+    return this.recipes.values().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a recipe by name
+   */
+  public getRecipe(name: string): LoginRecipe | null {
+    return this.recipes.get(name);
+  }
+
+  /**
+   * Check the login recipe a run references before it is queued, as the run would fail on it
+   * @param name The loginRecipe option of the run
+   * @param url The URL the run starts from
+   * @returns Why the recipe can't be used, or undefined if it can or none is referenced
+   */
+  public findRecipeProblem(name: string | undefined, url: string): { error: string; notFound: boolean } | undefined {
+    if (!name) return undefined;
+
+    const recipe = this.recipes.get(name);
+    if (!recipe) {
+      return { error: `Login recipe ${name} not found`, notFound: true };
+    }
+    if (!isRecipeDomain(recipe, url)) {
+      return { error: `Login recipe ${recipe.name} only applies to ${recipe.domain}`, notFound: false };
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a recipe, or replace an existing one
+   * The cached session is dropped so the next test logs in with the new steps
+   */
+  public saveRecipe(input: LoginRecipeInput): LoginRecipe {
+    const existing = this.recipes.get(input.name);
+    const now = new Date().toISOString();
+    const recipe: LoginRecipe = {
+      ...input,
+      domain: input.domain.toLowerCase(),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.recipes.set(recipe.name, recipe);
+    this.sessions.delete(recipe.name);
+    return recipe;
+  }
+
+  /**
+   * Delete a recipe and its cached session
+   * @returns true if the recipe existed
+   */
+  public deleteRecipe(name: string): boolean {
+    this.sessions.delete(name);
+    return this.recipes.delete(name);
+  }
+
+  /**
+   * Get the cached session of a recipe
+   * @returns The session, or null if there is none or it has expired
+   */
+  public getSession(name: string): AuthSession | null {
+    const session = this.sessions.get(name);
+    if (!session) return null;
+
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      this.sessions.delete(name);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Cache the session a recipe logged in with
+   */
+  public saveSession(recipe: LoginRecipe, storageState: StorageState): AuthSession {
+    const now = Date.now();
+    const session: AuthSession = {
+      recipe: recipe.name,
+      domain: recipe.domain,
+      storageState,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + (recipe.sessionTtl || DEFAULT_SESSION_TTL) * 60000).toISOString()
+    };
+
+    this.sessions.set(recipe.name, session);
+    return session;
+  }
+
+  /**
+   * Drop the cached session of a recipe so the next test logs in again
+   * @returns true if a session was cached
+   */
+  public clearSession(name: string): boolean {
+    return this.sessions.delete(name);
+  }
+}
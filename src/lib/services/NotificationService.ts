@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import { NotificationEvent, NotificationPayload, TestStatusResponse, WebhookTarget, WebhookTargetInput } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { generateWebhookId } from '../utils';
+
+/**
+ * Last known outcome of a test flow, used to detect transitions
+ */
+export interface FlowOutcome {
+  key: string;
+  testId: string;
+  success: boolean;
+  updatedAt: string;
+}
+
+/**
+ * Stores backing the notification service
+ */
+export interface NotificationStores {
+  targets: BaseRecordStore<WebhookTarget>;
+  outcomes: BaseRecordStore<FlowOutcome>;
+}
+
+/**
+ * Sign a request body so receivers can verify it came from us
+ * @returns The hex encoded HMAC-SHA256 of the body
+ */
+export function signPayload(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Render a notification as a Slack incoming-webhook message
+ */
+function toSlackMessage(payload: NotificationPayload): { text: string } {
+  const flow = payload.suite
+    ? `*${payload.suite.name}* (v${payload.suite.version}) on ${payload.url}`
+    : `*${payload.url}*`;
+  const lines = payload.event === 'regression'
+    ? [`:red_circle: ${flow} started failing`]
+    : [`:large_green_circle: ${flow} is passing again`];
+
+  if (payload.failedStep) {
+    lines.push(`Step ${payload.failedStep.index}, "${payload.failedStep.instruction}", failed: ${payload.failedStep.error || 'unknown error'}`);
+  } else if (payload.error) {
+    lines.push(`Error: ${payload.error}`);
+  }
+  lines.push(`<${payload.reportUrl}|View report>`);
+
+  return { text: lines.join('\n') };
+}
+
+/**
+ * Wait before the next delivery attempt
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Service for webhook notifications
+ * Compares every finished run with the previous run of the same flow (the
+ * same suite, or the same URL for ad-hoc runs) and notifies the configured
+ * targets when it goes from passing to failing or back
+ */
+export class NotificationService {
+  private static instance: NotificationService;
+  private targets: BaseRecordStore<WebhookTarget>;
+  private outcomes: BaseRecordStore<FlowOutcome>;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private timeout: number;
+  private baseUrl: string;
+
+  private constructor(stores: NotificationStores) {
+    this.targets = stores.targets;
+    this.outcomes = stores.outcomes;
+    this.maxAttempts = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 4);
+    this.retryDelay = 1000;
+    this.timeout = Math.max(1000, Number(process.env.WEBHOOK_TIMEOUT) || 10000);
+    this.baseUrl = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService({
+        targets: createRecordStore<WebhookTarget>('webhooks'),
+        outcomes: createRecordStore<FlowOutcome>('flow-outcomes')
+      });
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given stores
+   */
+  public static configure(stores: NotificationStores): NotificationService {
+    NotificationService.instance = new NotificationService(stores);
+    return NotificationService.instance;
+  }
+
+  /**
+   * Get all webhook targets, oldest first
+   */
+  public getAllTargets(): WebhookTarget[] {
+    return this.targets.values().sort((a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  }
+
+  /**
+   * Get a webhook target by ID
+   */
+  public getTarget(targetId: string): WebhookTarget | null {
+    return this.targets.get(targetId);
+  }
+
+  /**
+   * Create a webhook target
+   */
+  public createTarget(input: WebhookTargetInput): WebhookTarget {
+    const now = new Date().toISOString();
+    const target: WebhookTarget = {
+      ...input,
+      id: generateWebhookId(),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.targets.set(target.id, target);
+    return target;
+  }
+
+  /**
+   * Replace the settings of a webhook target
+   * The existing secret is kept when the input has none
+   * @returns The updated target, or null if it does not exist
+   */
+  public updateTarget(targetId: string, input: WebhookTargetInput): WebhookTarget | null {
+    const existing = this.targets.get(targetId);
+    if (!existing) return null;
+
+    const target: WebhookTarget = {
+      ...input,
+      secret: input.secret || existing.secret,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.targets.set(target.id, target);
+    return target;
+  }
+
+  /**
+   * Delete a webhook target
+   * @returns true if the target existed
+   */
+  public deleteTarget(targetId: string): boolean {
+    return this.targets.delete(targetId);
+  }
+
+  /**
+   * Hide the secret of a target before it is returned by the API
+   */
+  public redact(target: WebhookTarget): WebhookTarget {
+    return { ...target, secret: target.secret ? '********' : undefined };
+  }
+
+  /**
+   * Key identifying the flow a run belongs to
+   * Hashed so long URLs still make valid record keys
+   */
+  private flowKey(status: TestStatusResponse, url: string): string {
+    const flow = status.suite ? `suite:${status.suite.id}` : `url:${url}`;
+    return crypto.createHash('sha256').update(flow).digest('hex');
+  }
+
+  /**
+   * Record the outcome of a finished run and notify on pass/fail transitions
+   * Deliveries happen in the background; this never throws
+   * @param status The final status from completeTest or failTest
+   */
+  public handleResult(status: TestStatusResponse): void {
+    try {
+      if (status.status !== 'completed' && status.status !== 'failed') return;
+
+      const url = status.result?.url || status.url;
+      if (!url) return;
+
+      const success = status.status === 'completed' && Boolean(status.result?.success);
+      const key = this.flowKey(status, url);
+      const previous = this.outcomes.get(key);
+
+      this.outcomes.set(key, { key, testId: status.testId, success, updatedAt: new Date().toISOString() });
+
+      // The first run of a flow, or a run with the same outcome, is not a transition
+      if (!previous || previous.success === success) return;
+
+      const payload = this.buildPayload(status, url, success ? 'recovery' : 'regression', previous.testId);
+      const targets = this.getAllTargets().filter(target =>
+        target.enabled &&
+        target.events.includes(payload.event) &&
+        (target.suiteIds.length === 0 || (status.suite && target.suiteIds.includes(status.suite.id)))
+      );
+
+      for (const target of targets) {
+        this.deliver(target, payload).catch(error => {
+          console.error(`Webhook ${target.id} failed for test ${status.testId}:`, error);
+        });
+      }
+    } catch (error) {
+      // Notifications must never interrupt saving a test result
+      console.error(`Error handling notifications for test ${status.testId}:`, error);
+    }
+  }
+
+  /**
+   * Build the notification sent for a transition
+   */
+  private buildPayload(
+    status: TestStatusResponse,
+    url: string,
+    event: NotificationEvent,
+    previousTestId: string
+  ): NotificationPayload {
+    const steps = status.result && 'customStepsResults' in status.result
+      ? status.result.customStepsResults || []
+      : [];
+    const failedIndex = steps.findIndex(step => !step.success);
+    const failedStep = failedIndex >= 0
+      ? { index: failedIndex + 1, instruction: steps[failedIndex].instruction, error: steps[failedIndex].error }
+      : undefined;
+
+    return {
+      event,
+      testId: status.testId,
+      url,
+      suite: status.suite,
+      success: event === 'recovery',
+      previousTestId,
+      failedStep: event === 'regression' ? failedStep : undefined,
+      error: event === 'regression' ? status.error || status.result?.errors?.[0]?.message : undefined,
+      reportUrl: `${this.baseUrl}/api/reports/${encodeURIComponent(status.testId)}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * POST a notification to a target, retrying with exponential backoff
+   * Network errors, 429 and 5xx responses are retried; other responses are final
+   * @throws Error once every attempt has failed
+   */
+  private async deliver(target: WebhookTarget, payload: NotificationPayload): Promise<void> {
+    const body = JSON.stringify(target.format === 'slack' ? toSlackMessage(payload) : payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'RevylBot/1.0 (+https://revyl.io/bot)',
+      'X-Webhook-Event': payload.event
+    };
+    if (target.secret) {
+      headers['X-Webhook-Signature'] = `sha256=${signPayload(body, target.secret)}`;
+    }
+
+    let lastError = '';
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await delay(this.retryDelay * Math.pow(2, attempt - 2));
+      }
+
+      try {
+        const response = await fetch(target.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.timeout)
+        });
+
+        if (response.ok) {
+          console.log(`Webhook ${target.id} notified about ${payload.event} of test ${payload.testId}`);
+          return;
+        }
+
+        lastError = `HTTP ${response.status}`;
+        if (response.status !== 429 && response.status < 500) break;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      console.warn(`Webhook ${target.id} attempt ${attempt}/${this.maxAttempts} failed: ${lastError}`);
+    }
+
+    throw new Error(`Webhook delivery failed: ${lastError}`);
+  }
+}
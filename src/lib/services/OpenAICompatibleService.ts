@@ -0,0 +1,37 @@
+/**
+ * OpenAI-compatible Service Implementation
+ * Talks to any server exposing the OpenAI chat completions API, such as
+ * Ollama, llama.cpp server, vLLM or LM Studio
+ */
+
+import { OpenAIService } from "./OpenAIService";
+
+export interface OpenAICompatibleServiceOptions {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  visionModel?: string;
+  supportsVision?: boolean;
+}
+
+export class OpenAICompatibleService extends OpenAIService {
+  protected readonly providerName: string = "OpenAI-compatible server";
+  private visionEnabled: boolean;
+
+  constructor(options: OpenAICompatibleServiceOptions) {
+    // Local servers usually ignore the key, but the client refuses to start without one
+    super(options.apiKey || "not-needed", {
+      model: options.model,
+      visionModel: options.visionModel,
+      baseURL: options.baseURL
+    });
+    this.visionEnabled = options.supportsVision ?? Boolean(options.visionModel);
+  }
+
+  /**
+   * Only models with image input can judge screenshots
+   */
+  supportsVision(): boolean {
+    return this.visionEnabled;
+  }
+}
@@ -0,0 +1,134 @@
+import { ScheduleRun, TestSchedule, TestScheduleInput } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { generateScheduleId } from '../utils';
+import { getNextRun, parseCron } from '../scheduler/cron';
+
+// Number of runs kept in the history of each schedule
+const MAX_SCHEDULE_HISTORY = 100;
+
+/**
+ * Service for managing test schedules
+ * Only stores schedules and their run history; TestScheduler decides when they fire
+ */
+export class ScheduleService {
+  private static instance: ScheduleService;
+  private schedules: BaseRecordStore<TestSchedule>;
+
+  private constructor(store: BaseRecordStore<TestSchedule>) {
+    this.schedules = store;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ScheduleService {
+    if (!ScheduleService.instance) {
+      ScheduleService.instance = new ScheduleService(
+        createRecordStore<TestSchedule>('schedules')
+      );
+    }
+    return ScheduleService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given store
+   */
+  public static configure(store: BaseRecordStore<TestSchedule>): ScheduleService {
+    ScheduleService.instance = new ScheduleService(store);
+    return ScheduleService.instance;
+  }
+
+  /**
+   * Next time a cron expression fires after the given date
+   */
+  private nextRunAt(cron: string, after: Date = new Date()): string | undefined {
+    return getNextRun(parseCron(cron), after)?.toISOString();
+  }
+
+  /**
+   * Get all schedules, oldest first
+   */
+  public getAllSchedules(): TestSchedule[] {
+    return this.schedules.values().sort((a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  public getSchedule(scheduleId: string): TestSchedule | null {
+    return this.schedules.get(scheduleId);
+  }
+
+  /**
+   * Create a new schedule
+   * @throws Error if the cron expression is invalid
+   */
+  public createSchedule(input: TestScheduleInput): TestSchedule {
+    const now = new Date();
+    const paused = input.paused ?? false;
+
+    const schedule: TestSchedule = {
+      ...input,
+      id: generateScheduleId(),
+      paused,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      nextRunAt: paused ? undefined : this.nextRunAt(input.cron, now),
+      history: []
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    return schedule;
+  }
+
+  /**
+   * Pause or resume a schedule
+   * Resuming does not catch up on runs missed while paused
+   * @returns The updated schedule, or null if it does not exist
+   */
+  public setPaused(scheduleId: string, paused: boolean): TestSchedule | null {
+    const existing = this.schedules.get(scheduleId);
+    if (!existing) return null;
+
+    const schedule: TestSchedule = {
+      ...existing,
+      paused,
+      nextRunAt: paused ? undefined : this.nextRunAt(existing.cron),
+      updatedAt: new Date().toISOString()
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule and its history
+   * @returns true if the schedule existed
+   */
+  public deleteSchedule(scheduleId: string): boolean {
+    return this.schedules.delete(scheduleId);
+  }
+
+  /**
+   * Record a firing of a schedule and move it on to its next run
+   * @returns The updated schedule, or null if it was deleted in the meantime
+   */
+  public recordRun(scheduleId: string, run: ScheduleRun): TestSchedule | null {
+    const existing = this.schedules.get(scheduleId);
+    if (!existing) return null;
+
+    const schedule: TestSchedule = {
+      ...existing,
+      lastRunAt: run.triggeredAt,
+      activeTestId: run.testId || existing.activeTestId,
+      nextRunAt: existing.paused ? undefined : this.nextRunAt(existing.cron, new Date(run.triggeredAt)),
+      history: [run, ...existing.history].slice(0, MAX_SCHEDULE_HISTORY)
+    };
+
+    this.schedules.set(schedule.id, schedule);
+    return schedule;
+  }
+}
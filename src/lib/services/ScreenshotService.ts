@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { BaseScreenshotStore } from '../storage/BaseScreenshotStore';
+import { createScreenshotStore } from '../storage/createRecordStore';
+import { isScreenshotId } from '../utils';
+
+/**
+ * A stored screenshot with the content type detected from its bytes
+ */
+export interface ScreenshotImage {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Detect the image type from the magic bytes at the start of the file
+ */
+function detectContentType(data: Buffer): string {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data.subarray(0, 4).toString('hex') === '89504e47') return 'image/png';
+  if (data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP') return 'image/webp';
+  return 'application/octet-stream';
+}
+
+/**
+ * Service for storing screenshots by content
+ * Results reference screenshots by the SHA-256 hash of their bytes instead of
+ * carrying base64 data, so identical images are only stored once
+ */
+export class ScreenshotService {
+  private static instance: ScreenshotService;
+  private screenshots: BaseScreenshotStore;
+
+  private constructor(store: BaseScreenshotStore) {
+    this.screenshots = store;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): ScreenshotService {
+    if (!ScreenshotService.instance) {
+      ScreenshotService.instance = new ScreenshotService(createScreenshotStore());
+    }
+    return ScreenshotService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given store
+   */
+  public static configure(store: BaseScreenshotStore): ScreenshotService {
+    ScreenshotService.instance = new ScreenshotService(store);
+    return ScreenshotService.instance;
+  }
+
+  /**
+   * Store a screenshot taken by a DOM interactor
+   * @param screenshot A data URL or bare base64 image; IDs of stored screenshots are returned as they are
+   * @returns The screenshot ID, or undefined if there is no image
+   */
+  public save(screenshot?: string): string | undefined {
+    if (!screenshot) return undefined;
+    if (isScreenshotId(screenshot)) return screenshot;
+
+    const data = Buffer.from(screenshot.replace(/^data:[^,]*,/, ''), 'base64');
+    if (data.length === 0) return undefined;
+
+    const id = crypto.createHash('sha256').update(data).digest('hex');
+    this.screenshots.put(id, data);
+    return id;
+  }
+
+  /**
+   * Get a stored screenshot
+   * @param id The screenshot ID
+   */
+  public get(id: string): ScreenshotImage | null {
+    if (!isScreenshotId(id)) return null;
+
+    const data = this.screenshots.get(id);
+    return data ? { data, contentType: detectContentType(data) } : null;
+  }
+}
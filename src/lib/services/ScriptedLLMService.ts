@@ -0,0 +1,278 @@
+/**
+ * Scripted LLM Service Implementation
+ * Replays recorded or hand-written decisions instead of calling a model,
+ * so the test runner can be exercised deterministically and offline
+ */
+
+import fs from "fs";
+import { BaseLLMService } from "./BaseLLMService";
+import { ElementSelection, FormFieldIdentification, LLMDecision, PageElement, PageState, VisionAnalysisResult } from "../types";
+
+/**
+ * A decision to replay. The target only needs the properties that identify
+ * the element (e.g. id or text); it is matched against the live page state.
+ * Recorded LLMDecision objects can be used as-is.
+ */
+export interface ScriptedDecision extends Omit<LLMDecision, 'targetElement' | 'confidence' | 'reasoning'> {
+  targetElement?: Partial<PageElement>;
+  confidence?: number;
+  reasoning?: string;
+}
+
+/**
+ * A scripted screenshot analysis verdict
+ */
+export interface ScriptedVisionResult {
+  isPassed: boolean;
+  confidence?: number;
+  reasoning?: string;
+}
+
+/**
+ * The decisions for one custom step
+ */
+export interface ScriptedStep {
+  // The custom step this entry belongs to; entries without one are used in order
+  instruction?: string;
+  decisions: ScriptedDecision[];
+  // Verdicts for successive screenshot analyses; every analysis passes if omitted
+  visionResults?: ScriptedVisionResult[];
+}
+
+/**
+ * What the confirmation page of a submitted form looks like
+ * Every property that is set must be contained in the page's title, URL or the text of one of its elements
+ */
+export interface ScriptedConfirmation {
+  title?: string;
+  url?: string;
+  text?: string;
+}
+
+export interface LLMScript {
+  name?: string;
+  steps: ScriptedStep[];
+  // Without one, only the title and URL of a page are checked for confirmation wording
+  confirmation?: ScriptedConfirmation;
+}
+
+interface ScriptedStepState {
+  step: ScriptedStep;
+  decisionIndex: number;
+  visionIndex: number;
+  // Set once the entry was picked for a step, so a repeated instruction gets the next entry
+  used: boolean;
+  // Set once the entry returned its last decision
+  complete: boolean;
+}
+
+export class ScriptedLLMService extends BaseLLMService {
+  private stepStates: ScriptedStepState[];
+  private currentInstruction: string | null = null;
+  private currentState: ScriptedStepState | null = null;
+  private nextSequentialStep: number = 0;
+  private confirmation?: ScriptedConfirmation;
+
+  constructor(script: LLMScript) {
+    super();
+    this.confirmation = script.confirmation;
+    this.stepStates = script.steps.map(step => ({ step, decisionIndex: 0, visionIndex: 0, used: false, complete: false }));
+  }
+
+  /**
+   * Load a script from a JSON file
+   * @param scriptPath Path to the script file
+   */
+  static fromFile(scriptPath: string): ScriptedLLMService {
+    const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as LLMScript;
+    if (!Array.isArray(script.steps)) {
+      throw new Error(`LLM script ${scriptPath} has no "steps" array`);
+    }
+    return new ScriptedLLMService(script);
+  }
+
+  /**
+   * Normalize an instruction for matching
+   */
+  private normalize(instruction: string): string {
+    return instruction.trim().toLowerCase();
+  }
+
+  /**
+   * Find the script entry for a custom step
+   * The entry of the running step is kept until it completes; after that the next
+   * unused entry whose instruction matches wins, otherwise the next entry without an instruction is used
+   */
+  private getStepState(instruction: string): ScriptedStepState | null {
+    if (this.currentInstruction === instruction && this.currentState && !this.currentState.complete) {
+      return this.currentState;
+    }
+
+    const normalized = this.normalize(instruction);
+    let state = this.stepStates.find(s =>
+      !s.used && s.step.instruction !== undefined && this.normalize(s.step.instruction) === normalized
+    ) || null;
+
+    if (!state) {
+      while (this.nextSequentialStep < this.stepStates.length) {
+        const candidate = this.stepStates[this.nextSequentialStep++];
+        if (!candidate.used && candidate.step.instruction === undefined) {
+          state = candidate;
+          break;
+        }
+      }
+    }
+
+    if (state) {
+      state.used = true;
+    }
+    this.currentInstruction = instruction;
+    this.currentState = state;
+    return state;
+  }
+
+  /**
+   * Resolve a partial element description against the elements on the page
+   * Falls back to the description itself so selectors can still be built from it
+   */
+  private resolveElement(target: Partial<PageElement>, pageState: PageState): PageElement {
+    const keys = ['tag', 'type', 'id', 'name', 'placeholder', 'href'] as const;
+
+    const match = pageState.elements.find(element => {
+      for (const key of keys) {
+        if (target[key] !== undefined && target[key] !== element[key]) {
+          return false;
+        }
+      }
+      if (target.text !== undefined && this.normalize(target.text) !== this.normalize(element.text || '')) {
+        return false;
+      }
+      return true;
+    });
+
+    return match || {
+      ...target,
+      tag: target.tag || '*',
+      visible: target.visible ?? true,
+      rect: target.rect || { x: 0, y: 0, width: 0, height: 0 }
+    };
+  }
+
+  /**
+   * Returns the first matching element of the page for the instruction text
+   * Elements are numbered among the visible ones, as in the prompts of the other providers
+   */
+  async getElementToClick(pageState: PageState, instruction: string): Promise<ElementSelection> {
+    const normalized = this.normalize(instruction);
+    const index = pageState.elements
+      .filter(el => el.visible)
+      .findIndex(el => el.text && normalized.includes(this.normalize(el.text)));
+
+    return {
+      elementId: String(index >= 0 ? index + 1 : 1),
+      confidence: index >= 0 ? 100 : 0,
+      reasoning: index >= 0 ? "Scripted: element text appears in the instruction" : "Scripted: no element text matched the instruction"
+    };
+  }
+
+  /**
+   * Scripts do not describe form fields
+   */
+  async identifyFormFields(): Promise<FormFieldIdentification[]> {
+    return [];
+  }
+
+  /**
+   * Replays the next scripted decision for the current step
+   * @param pageState The current state of the page
+   * @param currentStep The current test step being executed
+   */
+  async determineNextAction(pageState: PageState, currentStep: string): Promise<LLMDecision> {
+    this.signal?.throwIfAborted();
+
+    const state = this.getStepState(currentStep);
+    if (!state) {
+      throw new Error(`No scripted decisions for step "${currentStep}"`);
+    }
+
+    const decision = state.step.decisions[state.decisionIndex];
+    if (!decision) {
+      throw new Error(`Scripted decisions exhausted for step "${currentStep}" after ${state.decisionIndex} actions`);
+    }
+    state.decisionIndex++;
+    const isComplete = decision.isComplete ?? state.decisionIndex === state.step.decisions.length;
+    state.complete = isComplete;
+
+    return {
+      ...decision,
+      targetElement: decision.targetElement ? this.resolveElement(decision.targetElement, pageState) : undefined,
+      confidence: decision.confidence ?? 100,
+      reasoning: decision.reasoning || `Scripted ${decision.action} (${state.decisionIndex}/${state.step.decisions.length})`,
+      isComplete
+    };
+  }
+
+  /**
+   * Echoes the step back as a generic action
+   */
+  async parseTestStep(step: string): Promise<{
+    action: string;
+    target?: string;
+    value?: string;
+    description: string;
+  }> {
+    return { action: 'click', description: step };
+  }
+
+  /**
+   * Treats a page as a confirmation when it matches the confirmation declared by the script,
+   * or, without one, when its title or URL reads like one
+   * @param pageState The current state of the page
+   */
+  async validateConfirmation(pageState: PageState): Promise<{
+    isConfirmation: boolean;
+    confidence: number;
+    reasoning: string;
+  }> {
+    if (this.confirmation) {
+      const { title, url, text } = this.confirmation;
+      const contains = (value: string | undefined, expected: string) => this.normalize(value || '').includes(this.normalize(expected));
+      const mismatch =
+        (title !== undefined && !contains(pageState.title, title) && `title does not contain "${title}"`) ||
+        (url !== undefined && !contains(pageState.url, url) && `URL does not contain "${url}"`) ||
+        (text !== undefined && !pageState.elements.some(el => contains(el.text, text)) && `no element contains "${text}"`);
+
+      return mismatch
+        ? { isConfirmation: false, confidence: 100, reasoning: `Scripted: the page ${mismatch}` }
+        : { isConfirmation: true, confidence: 100, reasoning: "Scripted: the page matches the scripted confirmation" };
+    }
+
+    const match = `${pageState.title} ${pageState.url}`.match(/thank|confirm|received|booked|scheduled|success/i);
+
+    return match
+      ? { isConfirmation: true, confidence: 80, reasoning: `Scripted: the page title or URL mentions "${match[0]}"` }
+      : { isConfirmation: false, confidence: 80, reasoning: "Scripted: the page title and URL do not read like a confirmation" };
+  }
+
+  /**
+   * Returns the next scripted verdict for the current step, passing by default
+   */
+  async analyzeScreenshots(
+    beforeScreenshot: string,
+    afterScreenshot: string
+  ): Promise<VisionAnalysisResult> {
+    const state = this.currentState;
+    const result = state?.step.visionResults?.[state.visionIndex];
+    if (state && result) {
+      state.visionIndex++;
+    }
+
+    return {
+      isPassed: result ? result.isPassed : true,
+      confidence: result?.confidence ?? 100,
+      reasoning: result?.reasoning || "Scripted screenshot analysis",
+      beforeScreenshot,
+      afterScreenshot
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { Secret, SecretInfo } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { createRedactor, getSecretEnvName, getSecretReferences, Redactor, replaceSecretPlaceholders } from '../redaction';
+
+const ENV_PREFIX = 'SECRET_';
+
+/**
+ * Service for the secrets referenced by steps and login recipes
+ * Values are only read when they are typed into the page or redacted, and are never returned by the API
+ */
+export class SecretService {
+  private static instance: SecretService;
+  private secrets: BaseRecordStore<Secret>;
+
+  private constructor(store: BaseRecordStore<Secret>) {
+    this.secrets = store;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): SecretService {
+    if (!SecretService.instance) {
+      SecretService.instance = new SecretService(
+        createRecordStore<Secret>('secrets')
+      );
+    }
+    return SecretService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given store
+   */
+  public static configure(store: BaseRecordStore<Secret>): SecretService {
+    SecretService.instance = new SecretService(store);
+    return SecretService.instance;
+  }
+
+  /**
+   * List the names of all secrets, including those set through the environment
+   */
+  public listSecrets(): SecretInfo[] {
+    const secrets = new Map<string, SecretInfo>();
+
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith(ENV_PREFIX) && key.length > ENV_PREFIX.length && process.env[key]) {
+        const name = key.slice(ENV_PREFIX.length);
+        secrets.set(getSecretEnvName(name), { name, source: 'env' });
+      }
+    }
+    for (const secret of this.secrets.values()) {
+      secrets.set(getSecretEnvName(secret.name), { name: secret.name, source: 'store', updatedAt: secret.updatedAt });
+    }
+
+    return Array.from(secrets.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Whether a secret is defined
+   */
+  public hasSecret(name: string): boolean {
+    return this.getValue(name) !== null;
+  }
+
+  /**
+   * Find the first secret referenced by the given values that is not defined
+   */
+  public findUndefinedSecret(values: string[]): string | undefined {
+    return values.flatMap(getSecretReferences).find(name => !this.hasSecret(name));
+  }
+
+  /**
+   * Create or replace a secret
+   */
+  public saveSecret(name: string, value: string): SecretInfo {
+    const existing = this.secrets.get(name);
+    const now = new Date().toISOString();
+
+    this.secrets.set(name, { name, value, createdAt: existing?.createdAt || now, updatedAt: now });
+    return { name, source: 'store', updatedAt: now };
+  }
+
+  /**
+   * Delete a stored secret; environment variables are not affected
+   * @returns true if the secret existed
+   */
+  public deleteSecret(name: string): boolean {
+    return this.secrets.delete(name);
+  }
+
+  /**
+   * Replace the {{secret:NAME}} placeholders of a value with the secrets
+   * @throws If a referenced secret is not defined
+   */
+  public resolve(text: string): string {
+    return replaceSecretPlaceholders(text, name => {
+      const value = this.getValue(name);
+      if (value === null) {
+        throw new Error(`Secret ${name} is not defined (save it via /api/secrets or set ${getSecretEnvName(name)})`);
+      }
+      return value;
+    });
+  }
+
+  /**
+   * Create a redactor for the current secrets
+   * Create one per run or request rather than per string, as it reads every secret
+   */
+  public createRedactor(): Redactor {
+    return createRedactor(this.listSecrets().map(({ name }) => ({ name, value: this.getValue(name) || '' })));
+  }
+
+  private getValue(name: string): string | null {
+    return this.secrets.get(name)?.value ?? process.env[getSecretEnvName(name)] ?? null;
+  }
+}
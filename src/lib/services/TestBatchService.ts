@@ -0,0 +1,120 @@
+import { TestBatch, TestBatchItem, TestBatchStatusResponse, TestHistoryItem, TestStatusResponse } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { generateBatchId } from '../utils';
+import { TestResultService } from './TestResultService';
+
+/**
+ * Service for managing test batches
+ * A batch only remembers which tests it queued; their statuses and results
+ * stay in the TestResultService and are aggregated on request
+ */
+export class TestBatchService {
+  private static instance: TestBatchService;
+  private batches: BaseRecordStore<TestBatch>;
+
+  private constructor(store: BaseRecordStore<TestBatch>) {
+    this.batches = store;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TestBatchService {
+    if (!TestBatchService.instance) {
+      TestBatchService.instance = new TestBatchService(
+        createRecordStore<TestBatch>('test-batches')
+      );
+    }
+    return TestBatchService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given store
+   */
+  public static configure(store: BaseRecordStore<TestBatch>): TestBatchService {
+    TestBatchService.instance = new TestBatchService(store);
+    return TestBatchService.instance;
+  }
+
+  /**
+   * Record a batch of queued tests
+   */
+  public createBatch(items: TestBatchItem[]): TestBatch {
+    const batch: TestBatch = {
+      id: generateBatchId(),
+      createdAt: new Date().toISOString(),
+      items
+    };
+
+    this.batches.set(batch.id, batch);
+    return batch;
+  }
+
+  /**
+   * Get a batch by ID
+   */
+  public getBatch(batchId: string): TestBatch | null {
+    return this.batches.get(batchId);
+  }
+
+  /**
+   * Aggregate the current status of every test in a batch
+   * @returns The batch status, or null if the batch does not exist
+   */
+  public getBatchStatus(batchId: string): TestBatchStatusResponse | null {
+    const batch = this.batches.get(batchId);
+    if (!batch) return null;
+
+    const testResultService = TestResultService.getInstance();
+    const tests: TestStatusResponse[] = batch.items.map(item =>
+      testResultService.getTestStatus(item.testId) || {
+        testId: item.testId,
+        url: item.url,
+        status: 'failed',
+        error: 'Test status not found',
+        progress: 100
+      }
+    );
+
+    const counts: TestBatchStatusResponse['counts'] = {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0
+    };
+    for (const test of tests) {
+      counts[test.status]++;
+    }
+
+    const unfinished = counts.pending + counts.running;
+    const progress = tests.length > 0
+      ? Math.round(tests.reduce((total, test) => total + (test.progress || 0), 0) / tests.length)
+      : 100;
+
+    return {
+      batchId: batch.id,
+      createdAt: batch.createdAt,
+      status: unfinished === 0 ? 'completed' : counts.pending === tests.length ? 'pending' : 'running',
+      total: tests.length,
+      progress,
+      counts,
+      tests
+    };
+  }
+
+  /**
+   * Get the history items of the finished tests in a batch
+   * @returns The history items, or null if the batch does not exist
+   */
+  public getBatchHistory(batchId: string): TestHistoryItem[] | null {
+    const batch = this.batches.get(batchId);
+    if (!batch) return null;
+
+    const testResultService = TestResultService.getInstance();
+    return batch.items
+      .map(item => testResultService.getTestHistoryById(item.testId))
+      .filter((item): item is TestHistoryItem => item !== null);
+  }
+}
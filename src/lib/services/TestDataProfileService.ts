@@ -0,0 +1,103 @@
+import { TestDataProfile, TestDataProfileInput, TestDataProfileSettings } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { TestDataGenerator } from '../playwright/TestDataGenerator';
+
+/**
+ * Service for managing named test data profiles
+ * Profiles are referenced by name from the dataProfile option of a test run
+ */
+export class TestDataProfileService {
+  private static instance: TestDataProfileService;
+  private profiles: BaseRecordStore<TestDataProfile>;
+
+  private constructor(store: BaseRecordStore<TestDataProfile>) {
+    this.profiles = store;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TestDataProfileService {
+    if (!TestDataProfileService.instance) {
+      TestDataProfileService.instance = new TestDataProfileService(
+        createRecordStore<TestDataProfile>('data-profiles')
+      );
+    }
+    return TestDataProfileService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given store
+   */
+  public static configure(store: BaseRecordStore<TestDataProfile>): TestDataProfileService {
+    TestDataProfileService.instance = new TestDataProfileService(store);
+    return TestDataProfileService.instance;
+  }
+
+  /**
+   * Get all profiles sorted by name
+   */
+  public getAllProfiles(): TestDataProfile[] {
+    return this.profiles.values().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a profile by name
+   */
+  public getProfile(name: string): TestDataProfile | null {
+    return this.profiles.get(name);
+  }
+
+  /**
+   * Get the name of the profile a dataProfile option references if it does not exist
+   * Check this before queueing a run, as creating its generator would fail
+   */
+  public findMissingProfile(dataProfile?: string | TestDataProfileSettings): string | undefined {
+    return typeof dataProfile === 'string' && !this.profiles.get(dataProfile) ? dataProfile : undefined;
+  }
+
+  /**
+   * Create a profile, or replace the settings of an existing one
+   */
+  public saveProfile(input: TestDataProfileInput): TestDataProfile {
+    const existing = this.profiles.get(input.name);
+    const now = new Date().toISOString();
+    const profile: TestDataProfile = {
+      ...input,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.profiles.set(profile.name, profile);
+    return profile;
+  }
+
+  /**
+   * Delete a profile
+   * @returns true if the profile existed
+   */
+  public deleteProfile(name: string): boolean {
+    return this.profiles.delete(name);
+  }
+
+  /**
+   * Create the generator for a run from its dataProfile option
+   * @param overrides Settings that take precedence over the profile, e.g. the email base of the inbox
+   * @throws If a named profile does not exist
+   */
+  public createGenerator(
+    dataProfile?: string | TestDataProfileSettings,
+    overrides: TestDataProfileSettings = {}
+  ): TestDataGenerator {
+    if (typeof dataProfile === 'string') {
+      const profile = this.profiles.get(dataProfile);
+      if (!profile) {
+        throw new Error(`Test data profile ${dataProfile} not found`);
+      }
+      return new TestDataGenerator({ ...profile, ...overrides }, profile.name);
+    }
+
+    return new TestDataGenerator({ ...dataProfile, ...overrides });
+  }
+}
@@ -1,34 +1,106 @@
-import { CustomStepResult, TestWebsiteResponse, TestHistoryItem, TestStatusResponse } from '../types';
+import { CustomStepResult, LLMDecision, SuiteRef, TestEvent, TestWebsiteResponse, TestHistoryItem, TestStatusResponse } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { NotificationService } from './NotificationService';
+import { SecretService } from './SecretService';
+import { redactSecrets } from '../redaction';
+
+/**
+ * Stores backing the test result service
+ */
+export interface TestResultStores {
+  statuses: BaseRecordStore<TestStatusResponse>;
+  histories: BaseRecordStore<TestHistoryItem>;
+}
+
+export type TestEventListener = (event: TestEvent) => void;
 
 /**
  * Service for managing test results
- * In a real application, this would use a database
+ * Persistence is delegated to pluggable record stores (file-backed by default)
+ * Secret values are redacted from everything that is stored or streamed
  */
 export class TestResultService {
   private static instance: TestResultService;
-  private testStatuses: Map<string, TestStatusResponse> = new Map();
-  private testHistories: Map<string, TestHistoryItem> = new Map();
+  private testStatuses: BaseRecordStore<TestStatusResponse>;
+  private testHistories: BaseRecordStore<TestHistoryItem>;
+  private listeners: Map<string, Set<TestEventListener>> = new Map();
 
-  private constructor() {}
+  private constructor(stores: TestResultStores) {
+    this.testStatuses = stores.statuses;
+    this.testHistories = stores.histories;
+  }
 
   /**
    * Get the singleton instance
    */
   public static getInstance(): TestResultService {
     if (!TestResultService.instance) {
-      TestResultService.instance = new TestResultService();
+      TestResultService.instance = new TestResultService({
+        statuses: createRecordStore<TestStatusResponse>('test-statuses'),
+        histories: createRecordStore<TestHistoryItem>('test-history')
+      });
     }
     return TestResultService.instance;
   }
 
+  /**
+   * Replace the singleton with one backed by the given stores
+   * Useful for unit tests that need an isolated in-memory instance
+   */
+  public static configure(stores: TestResultStores): TestResultService {
+    TestResultService.instance = new TestResultService(stores);
+    return TestResultService.instance;
+  }
+
+  /**
+   * Subscribe to live events for a test
+   * @returns A function that removes the listener
+   */
+  public subscribe(testId: string, listener: TestEventListener): () => void {
+    if (!this.listeners.has(testId)) {
+      this.listeners.set(testId, new Set());
+    }
+    this.listeners.get(testId)!.add(listener);
+
+    return () => {
+      const testListeners = this.listeners.get(testId);
+      if (!testListeners) return;
+
+      testListeners.delete(listener);
+      if (testListeners.size === 0) {
+        this.listeners.delete(testId);
+      }
+    };
+  }
+
+  /**
+   * Notify all listeners of a test about an event
+   */
+  private emit(event: TestEvent): void {
+    const testListeners = this.listeners.get(event.testId);
+    if (!testListeners) return;
+
+    for (const listener of Array.from(testListeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A broken subscriber must never interrupt the test run
+        console.error(`Test event listener failed for ${event.testId}:`, error);
+      }
+    }
+  }
+
   /**
    * Create a new pending test
    */
-  public createPendingTest(testId: string): TestStatusResponse {
+  public createPendingTest(testId: string, url?: string, suite?: SuiteRef): TestStatusResponse {
     const testStatus: TestStatusResponse = {
       testId,
+      url,
       status: 'pending',
-      progress: 0
+      progress: 0,
+      suite
     };
 
     this.testStatuses.set(testId, testStatus);
@@ -44,7 +116,23 @@ export class TestResultService {
 
     testStatus.status = 'running';
     testStatus.progress = 25;
+    delete testStatus.queuePosition;
+    this.testStatuses.set(testId, testStatus);
+    this.emit({ type: 'progress', testId, progress: testStatus.progress });
+
+    return testStatus;
+  }
+
+  /**
+   * Update the queue position of a pending test
+   */
+  public updateQueuePosition(testId: string, queuePosition: number): TestStatusResponse | null {
+    const testStatus = this.testStatuses.get(testId);
+    if (!testStatus || testStatus.status !== 'pending') return null;
+
+    testStatus.queuePosition = queuePosition;
     this.testStatuses.set(testId, testStatus);
+    this.emit({ type: 'progress', testId, progress: testStatus.progress || 0, queuePosition });
 
     return testStatus;
   }
@@ -58,6 +146,7 @@ export class TestResultService {
 
     testStatus.progress = Math.min(99, progress); // Cap at 99% until complete
     this.testStatuses.set(testId, testStatus);
+    this.emit({ type: 'progress', testId, progress: testStatus.progress });
 
     return testStatus;
   }
@@ -72,6 +161,7 @@ export class TestResultService {
     const testStatus = this.testStatuses.get(testId);
     if (!testStatus) return null;
 
+    customStepResult = this.redact(customStepResult);
     if (!testStatus.result) {
       testStatus.result = {
         testId,
@@ -98,18 +188,31 @@ export class TestResultService {
     testStatus.progress = progress;
 
     this.testStatuses.set(testId, testStatus);
+    this.emit({ type: 'step', testId, stepIndex: totalSteps - 1, stepResult: customStepResult });
     return testStatus;
   }
 
+  /**
+   * Publish an LLM decision made while executing a custom step
+   * Decisions are only streamed to live subscribers, not persisted
+   */
+  public recordDecision(testId: string, stepIndex: number, instruction: string, decision: LLMDecision): void {
+    this.emit({ type: 'decision', testId, stepIndex, instruction, decision: this.redact(decision) });
+  }
+
   /**
    * Complete a test with results
    */
   public completeTest(result: TestWebsiteResponse): TestStatusResponse {
+    result = this.redact(result);
+    const suite = this.testStatuses.get(result.testId)?.suite;
     const testStatus: TestStatusResponse = {
       testId: result.testId,
+      url: result.url,
       status: 'completed',
       progress: 100,
-      result
+      result,
+      suite
     };
 
     this.testStatuses.set(result.testId, testStatus);
@@ -121,15 +224,18 @@ export class TestResultService {
       timestamp: new Date().toISOString(),
       success: result.success,
       primaryCTAFound: result.primaryCTAFound,
-      interactionSuccessful: result.interactionSuccessful
+      interactionSuccessful: result.interactionSuccessful,
+      suite
     };
 
     // Ensure we're storing it properly
     this.testHistories.set(result.testId, historyItem);
     
     // Debug log to verify history is being saved
-    console.log(`Test history saved for ID: ${result.testId}, Total history items: ${this.testHistories.size}`);
+    console.log(`Test history saved for ID: ${result.testId}, Total history items: ${this.testHistories.size()}`);
     
+    this.emit({ type: 'result', testId: result.testId, status: testStatus });
+    NotificationService.getInstance().handleResult(testStatus);
     return testStatus;
   }
 
@@ -137,11 +243,18 @@ export class TestResultService {
    * Mark a test as failed
    */
   public failTest(testId: string, error: string): TestStatusResponse {
+    error = this.redact(error);
+    // Look up the URL before the previous status is overwritten
+    const previousStatus = this.testStatuses.get(testId);
+    const url = previousStatus?.result?.url || previousStatus?.url || 'unknown';
+
     const testStatus: TestStatusResponse = {
       testId,
+      url: previousStatus?.url,
       status: 'failed',
       error,
-      progress: 100 // Mark as fully complete but failed
+      progress: 100, // Mark as fully complete but failed
+      suite: previousStatus?.suite
     };
 
     this.testStatuses.set(testId, testStatus);
@@ -149,32 +262,77 @@ export class TestResultService {
     // Also add to history when a test fails
     const historyItem: TestHistoryItem = {
       id: testId,
-      url: this.testStatuses.get(testId)?.result?.url || 'unknown',
+      url,
       timestamp: new Date().toISOString(),
       success: false,
       primaryCTAFound: false,
       interactionSuccessful: false,
-      error: error
+      error: error,
+      suite: previousStatus?.suite
     };
     
     this.testHistories.set(testId, historyItem);
     
+    this.emit({ type: 'result', testId, status: testStatus });
+    NotificationService.getInstance().handleResult(testStatus);
+    return testStatus;
+  }
+
+  /**
+   * Mark a test as cancelled, keeping any partial result
+   */
+  public cancelTest(testId: string, reason: string = 'Test cancelled', result?: TestWebsiteResponse): TestStatusResponse {
+    result = result && this.redact(result);
+    const previousStatus = this.testStatuses.get(testId);
+    const testStatus: TestStatusResponse = {
+      testId,
+      url: previousStatus?.url,
+      status: 'cancelled',
+      error: reason,
+      progress: 100,
+      result: result || previousStatus?.result,
+      suite: previousStatus?.suite
+    };
+
+    this.testStatuses.set(testId, testStatus);
+
+    const historyItem: TestHistoryItem = {
+      id: testId,
+      url: previousStatus?.result?.url || previousStatus?.url || 'unknown',
+      timestamp: new Date().toISOString(),
+      success: false,
+      primaryCTAFound: false,
+      interactionSuccessful: false,
+      error: reason,
+      suite: previousStatus?.suite
+    };
+
+    this.testHistories.set(testId, historyItem);
+
+    this.emit({ type: 'result', testId, status: testStatus });
     return testStatus;
   }
 
+  /**
+   * Replace secret values with their placeholders and mask typed passwords
+   */
+  private redact<T>(value: T): T {
+    return redactSecrets(value, SecretService.getInstance().createRedactor());
+  }
+
   /**
    * Get test status by ID
    */
   public getTestStatus(testId: string): TestStatusResponse | null {
-    return this.testStatuses.get(testId) || null;
+    return this.testStatuses.get(testId);
   }
 
   /**
    * Get all test history items
    */
   public getAllTestHistory(): TestHistoryItem[] {
-    // Convert the Map values to an array and sort by timestamp
-    const historyItems = Array.from(this.testHistories.values());
+    // Load all stored history items and sort by timestamp
+    const historyItems = this.testHistories.values();
     
     // Debug log to check if we have history items
     console.log(`Getting all test history. Total items: ${historyItems.length}`);
@@ -188,7 +346,7 @@ export class TestResultService {
    * Get test history by ID
    */
   public getTestHistoryById(id: string): TestHistoryItem | null {
-    return this.testHistories.get(id) || null;
+    return this.testHistories.get(id);
   }
   
   /**
@@ -0,0 +1,157 @@
+import { SuiteRef, TestSuite, TestSuiteInput } from '../types';
+import { BaseRecordStore } from '../storage/BaseRecordStore';
+import { createRecordStore } from '../storage/createRecordStore';
+import { generateSuiteId } from '../utils';
+
+/**
+ * Stores backing the test suite service
+ */
+export interface TestSuiteStores {
+  suites: BaseRecordStore<TestSuite>;
+  versions: BaseRecordStore<TestSuite>;
+}
+
+/**
+ * Service for managing saved test suites
+ * The latest version of every suite is kept alongside a snapshot of each
+ * version, so test runs can be traced back to the exact steps that produced them
+ */
+export class TestSuiteService {
+  private static instance: TestSuiteService;
+  private suites: BaseRecordStore<TestSuite>;
+  private versions: BaseRecordStore<TestSuite>;
+
+  private constructor(stores: TestSuiteStores) {
+    this.suites = stores.suites;
+    this.versions = stores.versions;
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): TestSuiteService {
+    if (!TestSuiteService.instance) {
+      TestSuiteService.instance = new TestSuiteService({
+        suites: createRecordStore<TestSuite>('test-suites'),
+        versions: createRecordStore<TestSuite>('test-suite-versions')
+      });
+    }
+    return TestSuiteService.instance;
+  }
+
+  /**
+   * Replace the singleton with one backed by the given stores
+   */
+  public static configure(stores: TestSuiteStores): TestSuiteService {
+    TestSuiteService.instance = new TestSuiteService(stores);
+    return TestSuiteService.instance;
+  }
+
+  /**
+   * Key of a version snapshot
+   */
+  private versionKey(suiteId: string, version: number): string {
+    return `${suiteId}@${version}`;
+  }
+
+  /**
+   * Save a suite as its latest version and as a snapshot
+   */
+  private save(suite: TestSuite): TestSuite {
+    this.suites.set(suite.id, suite);
+    this.versions.set(this.versionKey(suite.id, suite.version), suite);
+    return suite;
+  }
+
+  /**
+   * Get all suites, optionally only those with the given tag, most recently updated first
+   */
+  public getAllSuites(tag?: string): TestSuite[] {
+    return this.suites.values()
+      .filter(suite => !tag || suite.tags.includes(tag))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  /**
+   * Get the latest version of a suite
+   */
+  public getSuite(suiteId: string): TestSuite | null {
+    return this.suites.get(suiteId);
+  }
+
+  /**
+   * Get a specific version of a suite
+   */
+  public getSuiteVersion(suiteId: string, version: number): TestSuite | null {
+    return this.versions.get(this.versionKey(suiteId, version));
+  }
+
+  /**
+   * Create a new suite
+   */
+  public createSuite(input: TestSuiteInput): TestSuite {
+    const now = new Date().toISOString();
+    return this.save({
+      ...input,
+      id: generateSuiteId(),
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Update a suite, creating a new version
+   * @returns The updated suite, or null if it does not exist
+   */
+  public updateSuite(suiteId: string, input: TestSuiteInput): TestSuite | null {
+    const existing = this.suites.get(suiteId);
+    if (!existing) return null;
+
+    return this.save({
+      ...input,
+      id: existing.id,
+      version: existing.version + 1,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Copy the latest version of a suite into a new suite
+   * @returns The copy, or null if the suite does not exist
+   */
+  public cloneSuite(suiteId: string, name?: string): TestSuite | null {
+    const existing = this.suites.get(suiteId);
+    if (!existing) return null;
+
+    return this.createSuite({
+      name: name || `${existing.name} (copy)`,
+      baseUrl: existing.baseUrl,
+      customSteps: [...existing.customSteps],
+      options: existing.options ? { ...existing.options } : undefined,
+      tags: [...existing.tags]
+    });
+  }
+
+  /**
+   * Delete a suite and all of its versions
+   * @returns true if the suite existed
+   */
+  public deleteSuite(suiteId: string): boolean {
+    const existing = this.suites.get(suiteId);
+    if (!existing) return false;
+
+    for (let version = 1; version <= existing.version; version++) {
+      this.versions.delete(this.versionKey(suiteId, version));
+    }
+    return this.suites.delete(suiteId);
+  }
+
+  /**
+   * Reference to the latest version of a suite, recorded on the runs it produces
+   */
+  public toRef(suite: TestSuite): SuiteRef {
+    return { id: suite.id, name: suite.name, version: suite.version };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Base Record Store
+ * Abstract class that defines the interface for keyed persistence of JSON records
+ */
+export abstract class BaseRecordStore<T> {
+  /**
+   * Get a record by key
+   * @param key The record key
+   */
+  abstract get(key: string): T | null;
+
+  /**
+   * Insert or replace a record
+   * @param key The record key
+   * @param value The record to store
+   */
+  abstract set(key: string, value: T): void;
+
+  /**
+   * Delete a record
+   * @param key The record key
+   * @returns true if a record was removed
+   */
+  abstract delete(key: string): boolean;
+
+  /**
+   * Check if a record exists
+   * @param key The record key
+   */
+  abstract has(key: string): boolean;
+
+  /**
+   * List all stored records
+   */
+  abstract values(): T[];
+
+  /**
+   * Number of stored records
+   */
+  abstract size(): number;
+
+  /**
+   * Remove every record
+   */
+  abstract clear(): void;
+}
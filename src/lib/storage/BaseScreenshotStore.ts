@@ -0,0 +1,25 @@
+/**
+ * Base Screenshot Store
+ * Abstract class that defines the interface for persisting screenshot images by their content hash
+ */
+export abstract class BaseScreenshotStore {
+  /**
+   * Get the bytes of a screenshot
+   * @param id The content hash of the screenshot
+   */
+  abstract get(id: string): Buffer | null;
+
+  /**
+   * Store a screenshot under its content hash
+   * Storing an ID again is a no-op, since the content is the same
+   * @param id The content hash of the screenshot
+   * @param data The image bytes
+   */
+  abstract put(id: string, data: Buffer): void;
+
+  /**
+   * Check if a screenshot is stored
+   * @param id The content hash of the screenshot
+   */
+  abstract has(id: string): boolean;
+}
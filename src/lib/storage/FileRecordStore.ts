@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseRecordStore } from './BaseRecordStore';
+
+/**
+ * File-backed implementation of the record store
+ * Every record is kept as its own JSON file inside the collection directory,
+ * so data survives dev-server restarts and cold starts
+ */
+export class FileRecordStore<T> extends BaseRecordStore<T> {
+  private directory: string;
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Map a record key to a safe file path inside the collection directory
+   */
+  private filePath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  /**
+   * Read and parse a record file, returning null if it is missing or corrupt
+   */
+  private readFile(filePath: string): T | null {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read record from ${filePath}:`, error);
+      }
+      return null;
+    }
+  }
+
+  get(key: string): T | null {
+    return this.readFile(this.filePath(key));
+  }
+
+  set(key: string, value: T): void {
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    // Write to a temp file first so readers never see a half-written record
+    fs.writeFileSync(tempPath, JSON.stringify(value));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  delete(key: string): boolean {
+    try {
+      fs.unlinkSync(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  has(key: string): boolean {
+    return fs.existsSync(this.filePath(key));
+  }
+
+  values(): T[] {
+    return this.listFiles()
+      .map(file => this.readFile(path.join(this.directory, file)))
+      .filter((record): record is T => record !== null);
+  }
+
+  size(): number {
+    return this.listFiles().length;
+  }
+
+  clear(): void {
+    for (const file of this.listFiles()) {
+      fs.unlinkSync(path.join(this.directory, file));
+    }
+  }
+
+  /**
+   * List the record files in the collection directory
+   */
+  private listFiles(): string[] {
+    try {
+      return fs.readdirSync(this.directory).filter(file => file.endsWith('.json'));
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseScreenshotStore } from './BaseScreenshotStore';
+
+/**
+ * File-backed implementation of the screenshot store
+ * Every image is kept as its own file named after its content hash
+ */
+export class FileScreenshotStore extends BaseScreenshotStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, encodeURIComponent(id));
+  }
+
+  get(id: string): Buffer | null {
+    try {
+      return fs.readFileSync(this.filePath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read screenshot ${id}:`, error);
+      }
+      return null;
+    }
+  }
+
+  put(id: string, data: Buffer): void {
+    const filePath = this.filePath(id);
+    if (fs.existsSync(filePath)) return;
+
+    // Write to a temp file first so readers never see a half-written image
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  }
+
+  has(id: string): boolean {
+    return fs.existsSync(this.filePath(id));
+  }
+}
@@ -0,0 +1,37 @@
+import { BaseRecordStore } from './BaseRecordStore';
+
+/**
+ * In-memory implementation of the record store
+ * Data is lost when the process exits, which makes it a good fit for unit tests
+ */
+export class InMemoryRecordStore<T> extends BaseRecordStore<T> {
+  private records: Map<string, T> = new Map();
+
+  get(key: string): T | null {
+    return this.records.get(key) || null;
+  }
+
+  set(key: string, value: T): void {
+    this.records.set(key, value);
+  }
+
+  delete(key: string): boolean {
+    return this.records.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.records.has(key);
+  }
+
+  values(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  size(): number {
+    return this.records.size;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,23 @@
+import { BaseScreenshotStore } from './BaseScreenshotStore';
+
+/**
+ * In-memory implementation of the screenshot store
+ * Images are lost when the process exits, which makes it a good fit for unit tests
+ */
+export class InMemoryScreenshotStore extends BaseScreenshotStore {
+  private images: Map<string, Buffer> = new Map();
+
+  get(id: string): Buffer | null {
+    return this.images.get(id) || null;
+  }
+
+  put(id: string, data: Buffer): void {
+    if (!this.images.has(id)) {
+      this.images.set(id, data);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.images.has(id);
+  }
+}
@@ -0,0 +1,33 @@
+import path from 'path';
+import { getStorageDir } from './createRecordStore';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.zip': 'application/zip',
+  '.webm': 'video/webm'
+};
+
+/**
+ * Resolve the directory holding the trace and video files of a test run
+ * Artifacts are always written to disk, whatever the storage driver
+ */
+export function getArtifactDir(testId: string): string {
+  return path.join(getStorageDir(), 'artifacts', encodeURIComponent(testId));
+}
+
+/**
+ * Resolve the path of an artifact, or null if the name would leave the artifact directory
+ */
+export function resolveArtifactPath(testId: string, name: string): string | null {
+  if (!/^[\w.-]+$/.test(name) || name.startsWith('.')) {
+    return null;
+  }
+
+  return path.join(getArtifactDir(testId), name);
+}
+
+/**
+ * Content type served for an artifact file
+ */
+export function getArtifactContentType(name: string): string {
+  return CONTENT_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
@@ -0,0 +1,47 @@
+import path from 'path';
+import { BaseRecordStore } from './BaseRecordStore';
+import { FileRecordStore } from './FileRecordStore';
+import { InMemoryRecordStore } from './InMemoryRecordStore';
+import { BaseScreenshotStore } from './BaseScreenshotStore';
+import { FileScreenshotStore } from './FileScreenshotStore';
+import { InMemoryScreenshotStore } from './InMemoryScreenshotStore';
+
+export type StorageDriver = 'file' | 'memory';
+
+/**
+ * Resolve the configured storage driver
+ * Defaults to the file driver so test history survives restarts
+ */
+export function getStorageDriver(): StorageDriver {
+  return process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'file';
+}
+
+/**
+ * Resolve the root directory used by file-backed stores
+ */
+export function getStorageDir(): string {
+  return path.resolve(process.env.STORAGE_DIR || '.data');
+}
+
+/**
+ * Create a record store for a named collection using the configured driver
+ * @param collection The collection name (used as the directory name for file storage)
+ */
+export function createRecordStore<T>(collection: string): BaseRecordStore<T> {
+  if (getStorageDriver() === 'memory') {
+    return new InMemoryRecordStore<T>();
+  }
+
+  return new FileRecordStore<T>(path.join(getStorageDir(), collection));
+}
+
+/**
+ * Create the screenshot store using the configured driver
+ */
+export function createScreenshotStore(): BaseScreenshotStore {
+  if (getStorageDriver() === 'memory') {
+    return new InMemoryScreenshotStore();
+  }
+
+  return new FileScreenshotStore(path.join(getStorageDir(), 'screenshots'));
+}
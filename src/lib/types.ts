@@ -5,6 +5,56 @@ export interface TestWebsiteRequest {
   url: string;
   customSteps?: string[];
   options?: TestWebsiteOptions;
+  // Replay the actions of a compiled script instead of asking the LLM
+  replayScriptId?: string;
+  // Set when the request was produced by running a saved suite
+  suite?: SuiteRef;
+  // Crawl the site and test the primary CTA of every page instead of running customSteps
+  crawl?: CrawlOptions;
+  // Fill and submit the lead form once the customSteps have run
+  autoFillForm?: AutoFillOptions;
+  // Wait for the email the submitted form triggers, once the customSteps have run
+  verifyEmail?: EmailVerificationOptions;
+  // Requests the customSteps must make, e.g. "a POST to /api/leads returned 2xx"
+  networkAssertions?: NetworkAssertion[];
+  // Run the same test once per browser profile, queued together as a batch
+  matrix?: BrowserProfile[];
+}
+
+export interface NetworkAssertion {
+  // Index of the custom step the request belongs to; defaults to the last of the customSteps
+  step?: number;
+  // Any method when omitted
+  method?: string;
+  // Case-insensitive part of the request URL, or a regular expression written as "re:pattern"
+  url: string;
+  // "2xx" (default), another status class such as "3xx", or an exact status such as "201"
+  status?: string;
+}
+
+export interface EmailVerificationOptions {
+  // Case-insensitive text the subject or body must contain, or a regular expression written as "re:pattern"
+  subject?: string;
+  body?: string;
+  // How long to wait for the message, in milliseconds
+  timeout?: number;
+  // Open the first link in the email whose text or URL contains this
+  followLink?: string;
+  // Custom steps to run on the page the link opens
+  steps?: string[];
+}
+
+export interface AutoFillOptions {
+  // Defaults to the form with the most fillable fields
+  formSelector?: string;
+}
+
+export interface CrawlOptions {
+  // "auto" (default) reads sitemap.xml and falls back to following links
+  source?: "auto" | "sitemap" | "links";
+  // How many links away from the start page to follow
+  maxDepth?: number;
+  maxPages?: number;
 }
 
 export interface TestWebsiteOptions {
@@ -12,6 +62,87 @@ export interface TestWebsiteOptions {
   screenshotCapture?: boolean;
   headless?: boolean;
   detailedLogging?: boolean;
+  // Per-step limits; a custom step fails once any of them is reached
+  maxStepActions?: number;
+  maxStepDuration?: number; // milliseconds
+  maxStepTokens?: number;
+  // Name of a saved test data profile, or the profile itself
+  dataProfile?: string | TestDataProfileSettings;
+  // Fail a custom step when a console error or uncaught exception happens while it runs
+  failOnConsoleErrors?: boolean;
+  // Record a Playwright trace and/or a video of every page, served as artifacts of the run
+  recordTrace?: boolean;
+  recordVideo?: boolean;
+  // Browser engine; defaults to the device's browser, or chromium
+  browser?: BrowserName;
+  // Name of a Playwright device descriptor, e.g. "iPhone 13" or "Desktop Firefox"
+  device?: string;
+  // Overrides the device's viewport; 1280x720 without a device
+  viewport?: Viewport;
+  locale?: string; // e.g. "de-DE"
+  timezoneId?: string; // e.g. "Europe/Berlin"
+  // How the browser identifies itself to the site
+  identity?: BrowserIdentity;
+  // Start the run logged in
+  auth?: AuthOptions;
+}
+
+/**
+ * Browser Identity
+ * Sites that block or special-case the RevylBot user agent can be tested as a regular visitor
+ */
+export interface BrowserIdentity {
+  // "bot" (default) identifies as RevylBot; "browser" sends the user agent of a regular browser
+  userAgentPreset?: "bot" | "browser";
+  // Exact user agent, overriding the preset
+  userAgent?: string;
+  // Sent with every request of the run
+  extraHeaders?: Record<string, string>;
+  geolocation?: BrowserGeolocation;
+  // Permissions granted to every site, e.g. "geolocation" or "notifications"
+  permissions?: string[];
+}
+
+export interface BrowserGeolocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // meters
+}
+
+export type BrowserName = "chromium" | "firefox" | "webkit";
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+/**
+ * Browser Profile
+ * One cell of a browser matrix; its settings override the options of the request
+ */
+export interface BrowserProfile extends Pick<TestWebsiteOptions, "browser" | "device" | "viewport" | "locale" | "timezoneId"> {
+  // Label in matrix reports; defaults to the device or browser
+  name?: string;
+}
+
+/**
+ * The browser, device and identity a test actually ran with, so the run can be reproduced
+ */
+export interface TestEnvironment {
+  browser: BrowserName;
+  browserVersion?: string;
+  device?: string;
+  viewport: Viewport;
+  isMobile: boolean;
+  locale?: string;
+  timezoneId?: string;
+  userAgent: string;
+  userAgentPreset: "bot" | "browser" | "custom";
+  // Values are masked, as headers often carry credentials
+  extraHeaders?: Record<string, string>;
+  geolocation?: BrowserGeolocation;
+  permissions?: string[];
+  auth?: AuthSummary;
 }
 
 // Keeping old type for backwards compatibility
@@ -36,6 +167,32 @@ export interface TestError {
   step: string;
   message: string;
   details?: string;
+  // Requests that failed or returned an error status during the step
+  failedRequests?: NetworkEntry[];
+}
+
+/**
+ * Network Capture
+ * A HAR-like record of a request made by the page
+ */
+export interface NetworkEntry {
+  method: string;
+  url: string;
+  resourceType: string;
+  startedAt: string;
+  // Missing while the request is in flight, or when it failed without a response
+  status?: number;
+  statusText?: string;
+  // Why the request failed, e.g. "net::ERR_CONNECTION_REFUSED"
+  failure?: string;
+  duration?: number;
+  // Request body of form posts and API calls, truncated
+  postData?: string;
+}
+
+export interface NetworkAssertionResult extends NetworkAssertion {
+  passed: boolean;
+  message: string;
 }
 
 /**
@@ -51,6 +208,164 @@ export interface TestWebsiteResponse {
   totalDuration: number;
   errors: TestError[];
   customStepsResults?: CustomStepResult[];
+  tokenUsage?: TokenUsage;
+  replayScriptId?: string;
+  crawl?: CrawlReport;
+  formFill?: FormFillReport;
+  testData?: TestDataRecord;
+  emailVerification?: EmailVerificationReport;
+  // Console errors and uncaught exceptions of every page during the whole run
+  console?: ConsoleEntry[];
+  // Trace and video files recorded during the run
+  artifacts?: TestArtifact[];
+  environment?: TestEnvironment;
+}
+
+/**
+ * A file recorded during a test run, served from /api/reports/{testId}/artifacts/{name}
+ */
+export interface TestArtifact {
+  name: string;
+  type: "trace" | "video";
+  contentType: string;
+  // Page the video was recorded on, see ConsoleEntry.pageId
+  pageId?: string;
+}
+
+/**
+ * A console error or uncaught exception on a page
+ */
+export interface ConsoleEntry {
+  // "console" for console.error() calls, "pageerror" for uncaught exceptions
+  type: "console" | "pageerror";
+  text: string;
+  // Key of the page in WebSiteTest.pages, e.g. "page_2" for a tab opened during the run
+  pageId: string;
+  url: string;
+  // Source location of console messages, e.g. "https://example.com/app.js:12:5"
+  location?: string;
+  timestamp: string;
+}
+
+/**
+ * Email Verification Report
+ * Whether the email triggered by the test arrived and matched what was expected
+ */
+export interface EmailVerificationReport {
+  // Name of the inbox provider
+  provider: string;
+  address: string;
+  message?: {
+    from: string;
+    subject: string;
+    receivedAt: string;
+    links: EmailLink[];
+  };
+  checks: EmailCheck[];
+  followedLink?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface EmailCheck {
+  name: "subject" | "body" | "link";
+  expected: string;
+  passed: boolean;
+}
+
+export interface EmailLink {
+  url: string;
+  text?: string;
+}
+
+/**
+ * An email received by an inbox provider
+ */
+export interface InboxMessage {
+  id: string;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  receivedAt: string;
+  links: EmailLink[];
+}
+
+/**
+ * Auto-fill Form Report
+ * How each field of the lead form was classified and filled, and whether the submission was confirmed
+ */
+export interface FormFillReport {
+  formSelector?: string;
+  fields: FormFieldResult[];
+  // The submit button was clicked, or the form was submitted as if Enter was pressed
+  submitted: boolean;
+  confirmation?: {
+    isConfirmation: boolean;
+    confidence: number;
+    reasoning: string;
+  };
+  // Requests made by the page after submitting
+  network?: NetworkEntry[];
+  success: boolean;
+  error?: string;
+}
+
+export interface FormFieldResult {
+  label: string;
+  name?: string;
+  inputType: string;
+  fieldType: FormFieldIdentification["fieldType"];
+  classifiedBy: "llm" | "heuristic";
+  value?: string;
+  filled: boolean;
+  // The browser or the site marked the value as invalid
+  rejected: boolean;
+  validationMessage?: string;
+}
+
+/**
+ * Site Crawl Report
+ * One entry per visited page; a page is broken when it failed to load,
+ * its primary CTA did nothing or led to an error page, or one of its forms cannot be submitted
+ */
+export interface CrawlReport {
+  source: "sitemap" | "links";
+  pagesVisited: number;
+  brokenPages: number;
+  pages: CrawlPageResult[];
+}
+
+export interface CrawlPageResult {
+  url: string;
+  depth: number;
+  title?: string;
+  httpStatus?: number;
+  cta?: CrawlCTACheck;
+  forms: CrawlFormCheck[];
+  broken: boolean;
+  issues: string[];
+  screenshot?: string;
+  duration: number;
+}
+
+export interface CrawlCTACheck {
+  element: PageElement;
+  confidence: number;
+  reasoning: string;
+  outcome: "navigated" | "new-tab" | "page-changed" | "no-effect" | "click-failed";
+  destination?: string;
+  destinationStatus?: number;
+}
+
+export interface CrawlFormCheck {
+  selector: string;
+  fieldCount: number;
+  disabledCount: number;
+  hasSubmit: boolean;
+  action?: string;
+  issue?: string;
 }
 
 // Keeping old type for backwards compatibility
@@ -64,12 +379,55 @@ export interface TestBookingFlowResponse extends Omit<TestWebsiteResponse, 'prim
  */
 export interface TestStatusResponse {
   testId: string;
-  status: "pending" | "running" | "completed" | "failed";
+  url?: string;
+  status: "pending" | "running" | "completed" | "failed" | "cancelled";
   progress?: number;
+  queuePosition?: number; // 1-based position while waiting for a worker
   result?: TestWebsiteResponse | TestBookingFlowResponse;
   error?: string;
+  suite?: SuiteRef;
+}
+
+/**
+ * Live Test Events
+ * Pushed to subscribers (e.g. the /api/test-status/[id]/stream SSE endpoint) while a test runs
+ */
+export interface TestStatusEvent {
+  type: "status";
+  testId: string;
+  status: TestStatusResponse;
+}
+
+export interface TestProgressEvent {
+  type: "progress";
+  testId: string;
+  progress: number;
+  queuePosition?: number;
+}
+
+export interface TestDecisionEvent {
+  type: "decision";
+  testId: string;
+  stepIndex: number;
+  instruction: string;
+  decision: LLMDecision;
+}
+
+export interface TestStepEvent {
+  type: "step";
+  testId: string;
+  stepIndex: number;
+  stepResult: CustomStepResult;
+}
+
+export interface TestResultEvent {
+  type: "result";
+  testId: string;
+  status: TestStatusResponse;
 }
 
+export type TestEvent = TestStatusEvent | TestProgressEvent | TestDecisionEvent | TestStepEvent | TestResultEvent;
+
 /**
  * Test History Item
  */
@@ -83,6 +441,301 @@ export interface TestHistoryItem {
   demoFlowFound?: boolean;
   bookingSuccessful?: boolean;
   error?: string;
+  suite?: SuiteRef;
+}
+
+/**
+ * Report Statistics
+ * Success rates over a set of history items, overall and per domain
+ */
+export interface ReportSummary {
+  totalTests: number;
+  successfulTests: number;
+  failedTests: number;
+  successRate: number;
+}
+
+export interface DomainStats {
+  domain: string;
+  totalTests: number;
+  successfulTests: number;
+  failedTests: number;
+  successRate: number;
+}
+
+/**
+ * Test Batch
+ * Many URLs submitted together; every URL runs as its own queued test
+ */
+export interface TestBatch {
+  id: string;
+  createdAt: string;
+  items: TestBatchItem[];
+}
+
+export interface TestBatchItem {
+  url: string;
+  testId: string;
+  // Label of the browser profile when the batch is a browser matrix
+  profile?: string;
+}
+
+export interface TestBatchStatusResponse {
+  batchId: string;
+  createdAt: string;
+  // "completed" once every test has finished, whatever its outcome
+  status: "pending" | "running" | "completed";
+  total: number;
+  progress: number;
+  counts: Record<TestStatusResponse["status"], number>;
+  tests: TestStatusResponse[];
+}
+
+/**
+ * Test Suite
+ * A saved test configuration; every edit creates a new version
+ */
+export interface TestSuite {
+  id: string;
+  name: string;
+  baseUrl: string;
+  customSteps: string[];
+  options?: TestWebsiteOptions;
+  tags: string[];
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TestSuiteInput = Pick<TestSuite, 'name' | 'baseUrl' | 'customSteps' | 'options' | 'tags'>;
+
+/**
+ * The suite version that produced a test run
+ */
+export interface SuiteRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+/**
+ * Test Schedule
+ * Runs a saved suite, or an inline URL and steps, on a cron expression
+ */
+export interface TestSchedule {
+  id: string;
+  name: string;
+  cron: string;
+  suiteId?: string;
+  url?: string;
+  customSteps?: string[];
+  options?: TestWebsiteOptions;
+  paused: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  // The most recent run, used to prevent overlapping runs
+  activeTestId?: string;
+  history: ScheduleRun[];
+}
+
+export type TestScheduleInput = Pick<TestSchedule, 'name' | 'cron' | 'suiteId' | 'url' | 'customSteps' | 'options'> & {
+  paused?: boolean;
+};
+
+/**
+ * A single firing of a schedule
+ * Skipped runs record why no test was queued (e.g. the previous run was still going)
+ */
+export interface ScheduleRun {
+  scheduledFor: string;
+  triggeredAt: string;
+  status: "queued" | "skipped";
+  testId?: string;
+  reason?: string;
+}
+
+/**
+ * Webhook Notifications
+ * Sent when a test flow starts failing after it passed ("regression") or passes again ("recovery")
+ */
+export type NotificationEvent = "regression" | "recovery";
+
+export interface WebhookTarget {
+  id: string;
+  name: string;
+  url: string;
+  // "slack" sends an incoming-webhook message, "json" the full NotificationPayload
+  format: "slack" | "json";
+  // Used to sign request bodies with HMAC-SHA256
+  secret?: string;
+  events: NotificationEvent[];
+  // Only notify about these suites; all runs when empty
+  suiteIds: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookTargetInput = Pick<WebhookTarget, 'name' | 'url' | 'format' | 'secret' | 'events' | 'suiteIds' | 'enabled'>;
+
+export interface NotificationPayload {
+  event: NotificationEvent;
+  testId: string;
+  url: string;
+  suite?: SuiteRef;
+  success: boolean;
+  previousTestId: string;
+  failedStep?: {
+    index: number;
+    instruction: string;
+    error?: string;
+  };
+  error?: string;
+  reportUrl: string;
+  timestamp: string;
+}
+
+/**
+ * Test Data Profiles
+ * Control the values typed into forms so runs use data the target site accepts
+ */
+export type TestDataField =
+  | "firstName" | "lastName" | "fullName" | "email" | "phone" | "company" | "jobTitle" | "message"
+  | "street" | "city" | "postalCode" | "country";
+
+export type TestDataLocale = "en-US" | "en-GB" | "en-AU" | "en-IN" | "de-DE" | "fr-FR" | "es-ES";
+
+export interface TestDataProfileSettings {
+  // Defaults to en-US
+  locale?: TestDataLocale;
+  // Runs with the same seed generate the same values; a random seed is used when omitted
+  seed?: string;
+  // "qa@example.com" generates plus-addressed emails such as "qa+t4k2j9x@example.com"
+  emailBase?: string;
+  // "+44 7700 900123" (default) or "07700 900123"
+  phoneFormat?: "international" | "national";
+  // Used as-is instead of generated values
+  values?: Partial<Record<TestDataField, string>>;
+}
+
+export interface TestDataProfile extends TestDataProfileSettings {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TestDataProfileInput = Omit<TestDataProfile, 'createdAt' | 'updatedAt'>;
+
+/**
+ * The test data a run actually used, enough to reproduce it
+ */
+export interface TestDataRecord {
+  // Name of the saved profile, if one was used
+  profile?: string;
+  locale: TestDataLocale;
+  seed: string;
+  values: Partial<Record<TestDataField, string>>;
+}
+
+/**
+ * Authenticated Sessions
+ * Tests of pages behind a login start from a saved browser session instead of the login form
+ */
+export interface AuthOptions {
+  // Cookies and localStorage to start the run with, as saved by Playwright's storageState()
+  storageState?: StorageState;
+  // Name of a saved login recipe; its session is cached and reused until it expires
+  loginRecipe?: string;
+}
+
+export interface StorageState {
+  cookies: StorageStateCookie[];
+  origins: {
+    origin: string;
+    localStorage: { name: string; value: string }[];
+  }[];
+}
+
+export interface StorageStateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number; // Unix time in seconds, -1 for session cookies
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: "Strict" | "Lax" | "None";
+}
+
+/**
+ * One deterministic step of a login recipe
+ * Values may reference secrets as {{secret:NAME}}; they are resolved only when typed
+ */
+export interface LoginRecipeStep {
+  action: "goto" | "fill" | "click" | "press" | "waitFor";
+  // Required for fill, click and waitFor; press sends the key to the focused element
+  selector?: string;
+  // The text to type, the key to press or the URL to open
+  value?: string;
+}
+
+export interface LoginRecipe {
+  name: string;
+  // Tests of this domain and its subdomains may use the recipe, e.g. "app.example.com"
+  domain: string;
+  loginUrl: string;
+  steps: LoginRecipeStep[];
+  // The login succeeded once this selector is visible and/or the URL contains this text
+  successSelector?: string;
+  successUrl?: string;
+  // How long the session is reused before the recipe runs again; defaults to 60 minutes
+  sessionTtl?: number; // minutes
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type LoginRecipeInput = Omit<LoginRecipe, 'createdAt' | 'updatedAt'>;
+
+/**
+ * The cached session of a login recipe
+ */
+export interface AuthSession {
+  recipe: string;
+  domain: string;
+  storageState: StorageState;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * How a run was authenticated; never includes the session itself
+ */
+export interface AuthSummary {
+  source: "storageState" | "loginRecipe";
+  loginRecipe?: string;
+  // Whether the recipe's cached session was reused instead of logging in
+  sessionReused?: boolean;
+  sessionExpiresAt?: string;
+}
+
+/**
+ * Secrets
+ * Referenced as {{secret:NAME}}; values are never returned by the API
+ */
+export interface Secret {
+  name: string;
+  value: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SecretInfo {
+  name: string;
+  // Secrets saved through the API take precedence over SECRET_<NAME> environment variables
+  source: "store" | "env";
+  updatedAt?: string;
 }
 
 /**
@@ -133,6 +786,8 @@ export interface ElementSelection {
 }
 
 export interface FormFieldIdentification {
+  // Number of the element in the prompt, as for ElementSelection
+  elementId?: string;
   fieldType: 'name' | 'email' | 'phone' | 'company' | 'message' | 'job-title' | 'other';
   valueToUse: string;
   confidence: number;
@@ -154,4 +809,56 @@ export interface CustomStepResult {
   error?: string;
   status?: "success" | "failure" | "running";
   visionAnalysis?: VisionAnalysisResult;
+  actionCount?: number;
+  duration?: number;
+  tokenUsage?: TokenUsage;
+  limitReached?: "actions" | "duration" | "tokens";
+  actions?: RecordedAction[];
+  // Set when the step ran from a compiled script; "healed" steps fell back to the LLM
+  replay?: "replayed" | "healed";
+  // Requests made by the page while the step ran
+  network?: NetworkEntry[];
+  networkAssertions?: NetworkAssertionResult[];
+  // Console errors and uncaught exceptions while the step ran
+  console?: ConsoleEntry[];
+}
+
+/**
+ * An action executed during a custom step, with the selector used to reach its target
+ */
+export interface RecordedAction {
+  action: LLMDecision['action'];
+  selector?: string;
+  value?: string;
+  targetElement?: PageElement;
+  success: boolean;
+}
+
+/**
+ * Compiled Script
+ * The successful actions of a passing run, replayable without the LLM
+ */
+export interface CompiledStep {
+  instruction: string;
+  actions: RecordedAction[];
+}
+
+export interface CompiledScript {
+  id: string;
+  url: string;
+  // The suite whose runs keep this script up to date
+  suiteId?: string;
+  sourceTestId: string;
+  createdAt: string;
+  updatedAt: string;
+  steps: CompiledStep[];
+}
+
+/**
+ * LLM token consumption
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 } 
\ No newline at end of file
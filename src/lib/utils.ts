@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { AuthSummary } from "./types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -12,6 +13,34 @@ export function generateTestId(): string {
   return `test-${Math.floor(Math.random() * 10000000000)}`;
 }
 
+/**
+ * Generate a unique ID for a saved suite
+ */
+export function generateSuiteId(): string {
+  return `suite-${Math.floor(Math.random() * 10000000000)}`;
+}
+
+/**
+ * Generate a unique ID for a schedule
+ */
+export function generateScheduleId(): string {
+  return `schedule-${Math.floor(Math.random() * 10000000000)}`;
+}
+
+/**
+ * Generate a unique ID for a webhook target
+ */
+export function generateWebhookId(): string {
+  return `webhook-${Math.floor(Math.random() * 10000000000)}`;
+}
+
+/**
+ * Generate a unique ID for a test batch
+ */
+export function generateBatchId(): string {
+  return `batch-${Math.floor(Math.random() * 10000000000)}`;
+}
+
 /**
  * Format duration in milliseconds to a human-readable string
  */
@@ -21,3 +50,54 @@ export function formatDuration(ms: number): string {
   }
   return `${(ms / 1000).toFixed(1)}s`;
 }
+
+// Marks an expectation as a regular expression, e.g. "re:^/api/(leads|contacts)$"
+const REGEX_PREFIX = 're:';
+
+/**
+ * Check whether an expectation given in a request can be matched
+ * @returns false for a regular expression that does not compile
+ */
+export function isValidTextPattern(expected: string): boolean {
+  if (!expected.startsWith(REGEX_PREFIX)) return true;
+  try {
+    new RegExp(expected.slice(REGEX_PREFIX.length), 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check text against an expectation given in a request
+ * "re:pattern" is a case-insensitive regular expression, anything else a case-insensitive substring
+ */
+export function matchesText(expected: string, text: string): boolean {
+  if (expected.startsWith(REGEX_PREFIX)) {
+    return new RegExp(expected.slice(REGEX_PREFIX.length), 'i').test(text);
+  }
+  return text.toLowerCase().includes(expected.toLowerCase());
+}
+
+/**
+ * Whether a screenshot reference is the ID of a stored screenshot rather than inline image data
+ */
+export function isScreenshotId(screenshot: string): boolean {
+  return /^[a-f0-9]{64}$/.test(screenshot);
+}
+
+/**
+ * Resolve a screenshot reference to a URL an <img> can load
+ * Results from before the screenshot store carry data URLs, which are returned as they are
+ */
+export function getScreenshotUrl(screenshot: string): string {
+  return isScreenshotId(screenshot) ? `/api/screenshots/${screenshot}` : screenshot;
+}
+
+/**
+ * Describe how a run was authenticated, e.g. "Login recipe acme (cached session)"
+ */
+export function describeAuth(auth: AuthSummary): string {
+  if (auth.source === 'storageState') return 'Storage state';
+  return `Login recipe ${auth.loginRecipe} (${auth.sessionReused ? 'cached session' : 'logged in'})`;
+}